@@ -0,0 +1,202 @@
+import { assertEquals } from "@std/assert";
+import { createClient as createRedisClient, type RedisClientType } from "redis";
+import type { NostrEvent } from "@nostrify/nostrify";
+import { BroadcastPublisher, BroadcastRouter } from "./broadcast.ts";
+import { createConnId } from "./responses.ts";
+import { SubscriptionIndex } from "./subscription-index.ts";
+
+// Helper to create test events
+function createTestEvent(overrides: Partial<NostrEvent> = {}): NostrEvent {
+  return {
+    id: crypto.randomUUID().replace(/-/g, ""),
+    pubkey: "0".repeat(64),
+    created_at: Math.floor(Date.now() / 1000),
+    kind: 1,
+    tags: [],
+    content: "test event",
+    sig: "0".repeat(128),
+    ...overrides,
+  };
+}
+
+// Helper to create a fresh Redis connection
+async function connect(): Promise<RedisClientType> {
+  const redis: RedisClientType = createRedisClient({
+    url: Deno.env.get("REDIS_URL") || "redis://localhost:6379",
+  });
+  await redis.connect();
+  return redis;
+}
+
+// Helper to start a server's router, collecting `{connId}:{subId}` matches
+async function setup() {
+  const redis = await connect();
+  const subscriber = await connect();
+
+  const serverId = crypto.randomUUID().slice(0, 8);
+  const index = new SubscriptionIndex();
+  const router = new BroadcastRouter(
+    subscriber,
+    serverId,
+    index,
+    [4, 1059],
+  );
+  const publisher = new BroadcastPublisher(redis);
+
+  const delivered: string[] = [];
+  const closed: string[] = [];
+  await router.start(
+    (connId, subId) => delivered.push(`${connId}:${subId}`),
+    (connId, subId) => closed.push(`${connId}:${subId}`),
+  );
+
+  const cleanup = async () => {
+    await router.stop();
+    await subscriber.quit();
+    await redis.quit();
+  };
+
+  return { redis, serverId, index, publisher, delivered, closed, cleanup };
+}
+
+// Wait for published messages to be received
+function settle(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 100));
+}
+
+Deno.test("BroadcastRouter - delivers events to opened subscriptions", async () => {
+  const { serverId, index, publisher, delivered, cleanup } = await setup();
+
+  try {
+    const connId = createConnId(serverId);
+    index.addConnection(connId);
+
+    await publisher.subscribe(connId, "sub1", [{ kinds: [1] }]);
+    await publisher.release(connId, "sub1", []);
+    await publisher.publish(createTestEvent({ kind: 1 }));
+    await publisher.publish(createTestEvent({ kind: 3 }));
+    await settle();
+
+    assertEquals(delivered, [`${connId}:sub1`]);
+
+    await publisher.unsubscribe(connId, "sub1");
+    await publisher.publish(createTestEvent({ kind: 1 }));
+    await settle();
+
+    assertEquals(delivered.length, 1);
+  } finally {
+    await cleanup();
+  }
+});
+
+Deno.test("BroadcastRouter - live events are held until release", async () => {
+  const { serverId, index, publisher, delivered, cleanup } = await setup();
+
+  try {
+    const connId = createConnId(serverId);
+    index.addConnection(connId);
+
+    const sent = createTestEvent();
+    const held = createTestEvent();
+
+    await publisher.subscribe(connId, "sub1", [{ kinds: [1] }]);
+    await publisher.publish(sent);
+    await publisher.publish(held);
+    await settle();
+
+    assertEquals(delivered, []);
+
+    // Events already sent in the historical results aren't delivered again
+    await publisher.release(connId, "sub1", [sent.id]);
+    await settle();
+
+    assertEquals(delivered, [`${connId}:sub1`]);
+  } finally {
+    await cleanup();
+  }
+});
+
+Deno.test("BroadcastRouter - subscriptions holding too many events are closed", async () => {
+  const { serverId, index, publisher, delivered, closed, cleanup } =
+    await setup();
+
+  try {
+    const connId = createConnId(serverId);
+    index.addConnection(connId);
+
+    await publisher.subscribe(connId, "sub1", [{ kinds: [1] }]);
+    for (let i = 0; i <= 1000; i++) {
+      await publisher.publish(createTestEvent());
+    }
+    await settle();
+
+    assertEquals(closed, [`${connId}:sub1`]);
+
+    // Its held events are dropped along with it
+    await publisher.release(connId, "sub1", []);
+    await settle();
+
+    assertEquals(delivered, []);
+  } finally {
+    await cleanup();
+  }
+});
+
+Deno.test("BroadcastRouter - private kinds only match author and recipients", async () => {
+  const { serverId, index, publisher, delivered, cleanup } = await setup();
+
+  const author = "a".repeat(64);
+  const recipient = "b".repeat(64);
+  const stranger = "c".repeat(64);
+
+  const connIds = Array.from({ length: 4 }, () => createConnId(serverId));
+
+  try {
+    for (const connId of connIds) {
+      index.addConnection(connId);
+      index.add(connId, "sub", [{ kinds: [4] }]);
+      index.release(connId, "sub");
+    }
+
+    // NIP-42 authenticated pubkeys (the last connection is unauthenticated)
+    await publisher.authenticate(connIds[0], author);
+    await publisher.authenticate(connIds[1], recipient);
+    await publisher.authenticate(connIds[2], stranger);
+
+    await publisher.publish(createTestEvent({
+      kind: 4,
+      pubkey: author,
+      tags: [["p", recipient]],
+    }));
+    await settle();
+
+    assertEquals(delivered.sort(), [`${connIds[0]}:sub`, `${connIds[1]}:sub`]);
+  } finally {
+    await cleanup();
+  }
+});
+
+Deno.test("BroadcastRouter - expired events are not delivered", async () => {
+  const { serverId, index, publisher, delivered, cleanup } = await setup();
+
+  try {
+    const connId = createConnId(serverId);
+    index.addConnection(connId);
+    index.add(connId, "sub1", [{ kinds: [1] }]);
+    index.release(connId, "sub1");
+
+    const now = Math.floor(Date.now() / 1000);
+
+    await publisher.publish(createTestEvent({
+      tags: [["expiration", (now - 60).toString()]],
+    }));
+    await publisher.publish(createTestEvent({
+      tags: [["expiration", (now + 60).toString()]],
+    }));
+    await settle();
+
+    assertEquals(delivered, [`${connId}:sub1`]);
+  } finally {
+    await cleanup();
+  }
+});
@@ -0,0 +1,205 @@
+/**
+ * Fan-out of accepted events to live subscriptions
+ *
+ * Relay workers publish each accepted event once, and every server process
+ * matches it against the subscriptions of its own connections in memory (see
+ * SubscriptionIndex). Workers tell the owning server when a subscription is
+ * opened, released after EOSE, or closed, and when a connection authenticates.
+ *
+ * Both channels are received on the server's response subscriber connection,
+ * and Redis delivers messages to a connection in the order they were
+ * published, so a subscription is indexed before any event accepted after the
+ * worker opened it, and the events held until its release are delivered right
+ * after its EOSE.
+ *
+ * Events of private kinds (DMs, gift wraps) are only delivered to connections
+ * authenticated (NIP-42) as the author or a `p`-tagged recipient, and expired
+ * events (NIP-40) are never delivered. Events are matched synchronously as
+ * they're received, so each subscription gets them in broadcast order.
+ *
+ * Redis Channels:
+ * - `nostr:broadcast` - Accepted events (JSON)
+ * - `nostr:subscriptions:{serverId}` - Opened, released and closed
+ *   subscriptions, and authenticated pubkeys, of a server's connections (JSON)
+ */
+
+import type { RedisClientType } from "redis";
+import type { NostrEvent, NostrFilter } from "@nostrify/nostrify";
+import { canReadEvent } from "./relay-auth.ts";
+import { isEventExpired } from "./expiration.ts";
+import { getServerId } from "./responses.ts";
+import type { SubscriptionIndex } from "./subscription-index.ts";
+
+const BROADCAST_CHANNEL = "nostr:broadcast";
+
+// Live events held per subscription until its release, beyond which the
+// subscription is closed rather than silently missing events
+const MAX_HELD_EVENTS = 1000;
+
+function subscriptionChannel(serverId: string): string {
+  return `nostr:subscriptions:${serverId}`;
+}
+
+/**
+ * Opened subscription with its filters, released subscription with the IDs of
+ * events already sent to it, or closed subscription without either, or the
+ * authenticated pubkey of a connection
+ */
+interface SubscriptionChange {
+  connId: string;
+  subId?: string;
+  filters?: NostrFilter[];
+  sent?: string[];
+  pubkey?: string;
+}
+
+type Deliver = (connId: string, subId: string, event: NostrEvent) => void;
+type Close = (connId: string, subId: string, reason: string) => void;
+
+/**
+ * Publishes accepted events and subscription changes (relay workers)
+ */
+export class BroadcastPublisher {
+  constructor(private redis: RedisClientType) {}
+
+  async publish(event: NostrEvent): Promise<void> {
+    await this.redis.publish(BROADCAST_CHANNEL, JSON.stringify(event));
+  }
+
+  async subscribe(
+    connId: string,
+    subId: string,
+    filters: NostrFilter[],
+  ): Promise<void> {
+    await this.publishChange({ connId, subId, filters });
+  }
+
+  /**
+   * Deliver the live events held by a subscription, after its EOSE was sent
+   * @param sent - IDs of events sent in the historical results, which aren't
+   *   delivered again
+   */
+  async release(connId: string, subId: string, sent: string[]): Promise<void> {
+    await this.publishChange({ connId, subId, sent });
+  }
+
+  async unsubscribe(connId: string, subId: string): Promise<void> {
+    await this.publishChange({ connId, subId });
+  }
+
+  /**
+   * Let the owning server deliver private events for an authenticated pubkey
+   */
+  async authenticate(connId: string, pubkey: string): Promise<void> {
+    await this.publishChange({ connId, pubkey });
+  }
+
+  private async publishChange(change: SubscriptionChange): Promise<void> {
+    await this.redis.publish(
+      subscriptionChannel(getServerId(change.connId)),
+      JSON.stringify(change),
+    );
+  }
+}
+
+/**
+ * Matches published events against the subscriptions of a server process
+ * Requires a dedicated Redis connection, since subscribed connections can't
+ * run other commands
+ */
+export class BroadcastRouter {
+  constructor(
+    private subscriber: RedisClientType,
+    private serverId: string,
+    private index: SubscriptionIndex,
+    private privateKinds: number[] = [],
+  ) {}
+
+  /**
+   * Start receiving events, handing each match to `deliver`
+   * Subscriptions the router ends itself are handed to `close`.
+   */
+  async start(deliver: Deliver, close: Close): Promise<void> {
+    await this.subscriber.subscribe(
+      subscriptionChannel(this.serverId),
+      (message: string) => this.applyChange(message, deliver),
+    );
+    await this.subscriber.subscribe(
+      BROADCAST_CHANNEL,
+      (message: string) => {
+        try {
+          this.route(message, deliver, close);
+        } catch (error) {
+          console.error("Failed to broadcast event:", error);
+        }
+      },
+    );
+  }
+
+  async stop(): Promise<void> {
+    await this.subscriber.unsubscribe([
+      subscriptionChannel(this.serverId),
+      BROADCAST_CHANNEL,
+    ]);
+  }
+
+  private applyChange(message: string, deliver: Deliver): void {
+    try {
+      const { connId, subId, filters, sent, pubkey } = JSON.parse(
+        message,
+      ) as SubscriptionChange;
+      if (pubkey) {
+        this.index.setPubkey(connId, pubkey);
+      } else if (subId === undefined) {
+        return;
+      } else if (filters) {
+        this.index.add(connId, subId, filters);
+      } else if (sent) {
+        for (const event of this.index.release(connId, subId, sent)) {
+          deliver(connId, subId, event);
+        }
+      } else {
+        this.index.remove(connId, subId);
+      }
+    } catch (error) {
+      console.error("Invalid subscription message:", error);
+    }
+  }
+
+  private route(message: string, deliver: Deliver, close: Close): void {
+    const event = JSON.parse(message) as NostrEvent;
+
+    // NIP-40: Expired events are never delivered
+    if (isEventExpired(event)) {
+      return;
+    }
+
+    const matches = this.index.match(event);
+    const isPrivate = this.privateKinds.includes(event.kind);
+
+    for (const subscription of matches) {
+      const { connId, subId } = subscription;
+
+      // Private events are only delivered to their author and recipients
+      if (
+        isPrivate &&
+        !canReadEvent(event, this.index.getPubkey(connId), this.privateKinds)
+      ) {
+        continue;
+      }
+
+      // Hold live events until the subscription's EOSE was sent
+      if (subscription.held) {
+        if (subscription.held.length < MAX_HELD_EVENTS) {
+          subscription.held.push(event);
+        } else {
+          this.index.remove(connId, subId);
+          close(connId, subId, "error: too many events before EOSE");
+        }
+        continue;
+      }
+
+      deliver(connId, subId, event);
+    }
+  }
+}
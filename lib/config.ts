@@ -1,3 +1,5 @@
+import { DEFAULT_LIMITS, type RelayLimits } from "./limits.ts";
+
 /**
  * Configuration class for the Nostr relay server
  */
@@ -16,6 +18,17 @@ export class Config {
   public readonly relayContact?: string;
   public readonly relayBanner?: string;
   public readonly relayUrl?: string;
+  public readonly authRequiredForWrites: boolean;
+  public readonly authRequiredForReads: boolean;
+  public readonly privateKinds: number[];
+  public readonly trustedProxies: string[];
+  public readonly negentropyMaxItems: number;
+  public readonly maxIndexAttempts: number;
+  public readonly maxConnectionBacklog: number;
+  public readonly seenEventsTtl: number;
+  public readonly durableAcks: boolean;
+  public readonly durableAckTimeout: number;
+  public readonly limits: RelayLimits;
 
   constructor(env: { get(key: string): string | undefined }) {
     this.port = parseInt(env.get("PORT") || "8000");
@@ -29,6 +42,82 @@ export class Config {
     // Relay URL for NIP-98 authentication (optional, defaults to request URL)
     this.relayUrl = env.get("RELAY_URL");
 
+    // NIP-42 Authentication: "writes", "reads", "both", or empty for optional
+    const authRequired = (env.get("AUTH_REQUIRED") || "").trim().toLowerCase();
+    this.authRequiredForWrites = authRequired === "writes" ||
+      authRequired === "both";
+    this.authRequiredForReads = authRequired === "reads" ||
+      authRequired === "both";
+
+    // Kinds only readable by their author or `p`-tagged recipients (NIP-42)
+    // Defaults to DMs (4) and gift wraps (1059), empty disables the restriction
+    const privateKindsStr = env.get("PRIVATE_KINDS") ?? "4,1059";
+    this.privateKinds = privateKindsStr
+      .split(",")
+      .map((kind) => parseInt(kind.trim(), 10))
+      .filter((kind) => !isNaN(kind));
+
+    // CIDR ranges of reverse proxies whose X-Forwarded-For header is trusted
+    this.trustedProxies = (env.get("TRUSTED_PROXIES") || "")
+      .split(",")
+      .map((cidr) => cidr.trim())
+      .filter((cidr) => cidr.length > 0);
+
+    // NIP-77 Negentropy: max events a sync session may reconcile
+    this.negentropyMaxItems = parseInt(
+      env.get("NEGENTROPY_MAX_ITEMS") || "100000",
+    );
+
+    // Messages a connection may have queued for relay workers before it's shed
+    this.maxConnectionBacklog = parseInt(
+      env.get("MAX_CONNECTION_BACKLOG") || "100",
+    );
+
+    // Attempts to store an event rejected by OpenSearch before dead-lettering it
+    this.maxIndexAttempts = parseInt(env.get("MAX_INDEX_ATTEMPTS") || "5");
+
+    // Seconds an accepted event ID is remembered to reject republished copies
+    this.seenEventsTtl = parseInt(env.get("SEEN_EVENTS_TTL") || "3600");
+
+    // Only send OK once storage confirmed the event, failing after the timeout
+    this.durableAcks = env.get("DURABLE_ACKS") === "true";
+    this.durableAckTimeout = parseInt(
+      env.get("DURABLE_ACK_TIMEOUT") || "10000",
+    );
+
+    // NIP-11 limits, advertised in the relay information document and enforced
+    const limit = (key: string, fallback: number) =>
+      parseInt(env.get(key) || fallback.toString());
+    this.limits = {
+      max_message_length: limit(
+        "MAX_MESSAGE_LENGTH",
+        DEFAULT_LIMITS.max_message_length,
+      ),
+      max_subscriptions: limit(
+        "MAX_SUBSCRIPTIONS",
+        DEFAULT_LIMITS.max_subscriptions,
+      ),
+      max_limit: limit("MAX_LIMIT", DEFAULT_LIMITS.max_limit),
+      max_subid_length: limit(
+        "MAX_SUBID_LENGTH",
+        DEFAULT_LIMITS.max_subid_length,
+      ),
+      max_event_tags: limit("MAX_EVENT_TAGS", DEFAULT_LIMITS.max_event_tags),
+      max_content_length: limit(
+        "MAX_CONTENT_LENGTH",
+        DEFAULT_LIMITS.max_content_length,
+      ),
+      created_at_lower_limit: limit(
+        "CREATED_AT_LOWER_LIMIT",
+        DEFAULT_LIMITS.created_at_lower_limit,
+      ),
+      created_at_upper_limit: limit(
+        "CREATED_AT_UPPER_LIMIT",
+        DEFAULT_LIMITS.created_at_upper_limit,
+      ),
+      default_limit: limit("DEFAULT_LIMIT", DEFAULT_LIMITS.default_limit),
+    };
+
     // NIP-86 Management API
     const adminPubkeysStr = env.get("ADMIN_PUBKEYS") || "";
     this.adminPubkeys = adminPubkeysStr
@@ -0,0 +1,233 @@
+import { assertEquals } from "@std/assert";
+import { createClient as createRedisClient, type RedisClientType } from "redis";
+import type { NostrEvent } from "@nostrify/nostrify";
+import { EventStream } from "./event-stream.ts";
+
+// Helper to create a fresh Redis connection and a stream under a test key
+async function setup() {
+  const redis: RedisClientType = createRedisClient({
+    url: Deno.env.get("REDIS_URL") || "redis://localhost:6379",
+  });
+  await redis.connect();
+  const key = `test:events:stream:${crypto.randomUUID()}`;
+  const deadKey = `test:events:dead:${crypto.randomUUID()}`;
+  const stream = new EventStream(redis, key, deadKey);
+  await stream.init();
+  return { redis, stream, key, deadKey };
+}
+
+// Helper to create a test event
+function createEvent(content: string): NostrEvent {
+  return {
+    id: crypto.randomUUID().replace(/-/g, "").padEnd(64, "0"),
+    pubkey: "a".repeat(64),
+    created_at: Math.floor(Date.now() / 1000),
+    kind: 1,
+    tags: [],
+    content,
+    sig: "b".repeat(128),
+  };
+}
+
+Deno.test("EventStream - init is idempotent", async () => {
+  const { redis, stream, key } = await setup();
+
+  try {
+    await stream.init();
+    assertEquals(await stream.length(), 0);
+  } finally {
+    await redis.del(key);
+    await redis.quit();
+  }
+});
+
+Deno.test("EventStream - acknowledged events are removed", async () => {
+  const { redis, stream, key } = await setup();
+
+  try {
+    const events = [createEvent("one"), createEvent("two")];
+    for (const event of events) {
+      await stream.add(event);
+    }
+
+    const entries = await stream.read("worker1", 10, 100);
+    assertEquals(entries.map((entry) => entry.event), events);
+
+    // Other consumers don't receive events read by worker1
+    assertEquals(await stream.read("worker2", 10, 100), []);
+
+    await stream.ack(entries.map((entry) => entry.id));
+    assertEquals(await stream.length(), 0);
+  } finally {
+    await redis.del(key);
+    await redis.quit();
+  }
+});
+
+Deno.test("EventStream - unacknowledged events are claimed by other consumers", async () => {
+  const { redis, stream, key } = await setup();
+
+  try {
+    const event = createEvent("pending");
+    await stream.add(event);
+
+    // worker1 reads the event but never acknowledges it
+    const [entry] = await stream.read("worker1", 10, 100);
+
+    // Not idle long enough yet
+    assertEquals((await stream.claim("worker2", 60000, 10)).entries, []);
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    const claimed = await stream.claim("worker2", 10, 10);
+    assertEquals(claimed.entries, [{ id: entry.id, event, attempts: 0 }]);
+
+    await stream.ack([entry.id]);
+
+    // worker1 has no pending events left and can be removed
+    assertEquals(await stream.removeIdleConsumers(0), 2);
+  } finally {
+    await redis.del(key);
+    await redis.quit();
+  }
+});
+
+Deno.test("EventStream - claims continue from the previous claim", async () => {
+  const { redis, stream, key } = await setup();
+
+  try {
+    const events = [createEvent("one"), createEvent("two")];
+    for (const event of events) {
+      await stream.add(event);
+    }
+    await stream.read("worker1", 10, 100);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    const first = await stream.claim("worker2", 10, 1);
+    assertEquals(first.entries.map((entry) => entry.event), [events[0]]);
+
+    const second = await stream.claim("worker2", 10, 1, first.nextId);
+    assertEquals(second.entries.map((entry) => entry.event), [events[1]]);
+    assertEquals(second.nextId, "0-0");
+  } finally {
+    await redis.del(key);
+    await redis.quit();
+  }
+});
+
+Deno.test("EventStream - unparseable entries have no event", async () => {
+  const { redis, stream, key } = await setup();
+
+  try {
+    await redis.xAdd(key, "*", { event: "not json" });
+
+    const [entry] = await stream.read("worker1", 10, 100);
+    assertEquals(entry.event, undefined);
+  } finally {
+    await redis.del(key);
+    await redis.quit();
+  }
+});
+
+Deno.test("EventStream - events of the legacy queue are moved to the stream", async () => {
+  const { redis, stream, key } = await setup();
+  const legacyKey = `test:events:queue:${crypto.randomUUID()}`;
+
+  try {
+    const events = [
+      createEvent("one"),
+      createEvent("two"),
+      createEvent("three"),
+    ];
+    await redis.rPush(legacyKey, events.map((event) => JSON.stringify(event)));
+
+    assertEquals(await stream.drainLegacyQueue(legacyKey, 2), 3);
+    assertEquals(await redis.exists(legacyKey), 0);
+
+    const entries = await stream.read("worker1", 10, 100);
+    assertEquals(entries.map((entry) => entry.event), events);
+  } finally {
+    await redis.del([key, legacyKey]);
+    await redis.quit();
+  }
+});
+
+Deno.test("EventStream - ack channels are kept when events are retried", async () => {
+  const { redis, stream, key } = await setup();
+
+  try {
+    const event = createEvent("durable");
+    await stream.add(event, "nostr:events:stored:worker1");
+
+    let [entry] = await stream.read("worker1", 10, 100);
+    assertEquals(entry.ack, "nostr:events:stored:worker1");
+    await stream.fail({ ...entry, event }, "error", 5);
+
+    [entry] = await stream.read("worker1", 10, 100);
+    assertEquals(entry.ack, "nostr:events:stored:worker1");
+  } finally {
+    await redis.del(key);
+    await redis.quit();
+  }
+});
+
+Deno.test("EventStream - failed events are retried, then dead-lettered", async () => {
+  const { redis, stream, key, deadKey } = await setup();
+
+  try {
+    const event = createEvent("poison");
+    await stream.add(event);
+
+    // First failure queues the event again with its attempt count
+    let [entry] = await stream.read("worker1", 10, 100);
+    assertEquals(entry.attempts, 0);
+    assertEquals(await stream.fail({ ...entry, event }, "error", 2), false);
+
+    // Second failure moves it to the dead-letter queue
+    [entry] = await stream.read("worker1", 10, 100);
+    assertEquals(entry.attempts, 1);
+    assertEquals(
+      await stream.fail({ ...entry, event }, "mapper_parsing_exception", 2),
+      true,
+    );
+
+    assertEquals(await stream.length(), 0);
+    const [deadLetter] = await stream.listDeadLetters();
+    assertEquals(deadLetter.event, event);
+    assertEquals(deadLetter.reason, "mapper_parsing_exception");
+    assertEquals(deadLetter.attempts, 2);
+  } finally {
+    await redis.del([key, deadKey]);
+    await redis.quit();
+  }
+});
+
+Deno.test("EventStream - retry and discard dead-lettered events", async () => {
+  const { redis, stream, key, deadKey } = await setup();
+
+  try {
+    const retried = createEvent("retried");
+    const discarded = createEvent("discarded");
+    for (const event of [retried, discarded]) {
+      await stream.add(event);
+    }
+    for (const entry of await stream.read("worker1", 10, 100)) {
+      await stream.fail({ ...entry, event: entry.event! }, "error", 1);
+    }
+    assertEquals((await stream.listDeadLetters()).length, 2);
+
+    assertEquals(await stream.retryDeadLetter(retried.id), true);
+    assertEquals(await stream.discardDeadLetter(discarded.id), true);
+    assertEquals(await stream.retryDeadLetter(discarded.id), false);
+    assertEquals(await stream.discardDeadLetter(discarded.id), false);
+
+    assertEquals(await stream.listDeadLetters(), []);
+
+    // The retried event starts over with no failed attempts
+    const [entry] = await stream.read("worker1", 10, 100);
+    assertEquals(entry.event, retried);
+    assertEquals(entry.attempts, 0);
+  } finally {
+    await redis.del([key, deadKey]);
+    await redis.quit();
+  }
+});
@@ -0,0 +1,309 @@
+/**
+ * At-least-once queue of validated events awaiting storage
+ *
+ * Relay workers add events to a Redis Stream, and storage workers read them
+ * through a consumer group. Entries stay pending until they're acknowledged
+ * after a successful bulk insert, so events read by a worker that crashes are
+ * claimed by another worker once they've been idle long enough.
+ *
+ * Events rejected by OpenSearch are queued again with their attempt count, and
+ * moved to a dead-letter queue with the rejection reason after too many
+ * attempts, where admins can retry or discard them.
+ *
+ * Redis Keys:
+ * - `nostr:events:stream` - Stream of events with `event`, `attempts` and `ack`
+ *   fields (stream)
+ * - `nostr:events:dead` - Dead-lettered events by event ID (hash)
+ * - `nostr:events:queue` - Events queued for storage before the stream existed,
+ *   moved to the stream when storage workers start (list)
+ */
+
+import type { NostrEvent } from "@nostrify/nostrify";
+import type { RedisClientType } from "redis";
+
+const GROUP_NAME = "storage";
+
+// Moves a batch of events from the legacy list to the stream, in one step so
+// events aren't lost if the worker stops in between
+const DRAIN_SCRIPT = `
+local events = redis.call("LPOP", KEYS[1], ARGV[1])
+if not events then
+  return 0
+end
+for _, event in ipairs(events) do
+  redis.call("XADD", KEYS[2], "*", "event", event)
+end
+return #events
+`;
+
+/**
+ * Event read from the stream, identified by its entry ID
+ */
+export interface EventStreamEntry {
+  id: string;
+  /** Undefined when the entry couldn't be parsed */
+  event?: NostrEvent;
+  /** Number of failed attempts to store the event */
+  attempts: number;
+  /** Channel to publish the storage outcome on (durable acknowledgements) */
+  ack?: string;
+}
+
+/**
+ * Events claimed from the pending entries, and where to continue claiming
+ */
+export interface ClaimedEvents {
+  entries: EventStreamEntry[];
+  /** Entry ID to claim from next, `0-0` once all pending entries were seen */
+  nextId: string;
+}
+
+/**
+ * Event that repeatedly failed to be stored
+ */
+export interface DeadLetter {
+  event: NostrEvent;
+  reason: string;
+  attempts: number;
+  failed_at: number;
+}
+
+export class EventStream {
+  constructor(
+    private redis: RedisClientType,
+    private key = "nostr:events:stream",
+    private deadKey = "nostr:events:dead",
+  ) {}
+
+  /**
+   * Create the stream and consumer group if they don't exist yet
+   */
+  async init(): Promise<void> {
+    try {
+      await this.redis.xGroupCreate(this.key, GROUP_NAME, "0", {
+        MKSTREAM: true,
+      });
+    } catch (error) {
+      // The group was already created by another worker
+      if (!(error instanceof Error && error.message.startsWith("BUSYGROUP"))) {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Queue an event for storage
+   * @param ack - Channel to publish the storage outcome on
+   */
+  async add(event: NostrEvent, ack?: string): Promise<string> {
+    return await this.redis.xAdd(this.key, "*", {
+      event: JSON.stringify(event),
+      ...(ack && { ack }),
+    });
+  }
+
+  /**
+   * Read new events for a consumer, waiting up to `blockMs` for some to arrive
+   */
+  async read(
+    consumer: string,
+    count: number,
+    blockMs: number,
+  ): Promise<EventStreamEntry[]> {
+    const reply = await this.redis.xReadGroup(
+      GROUP_NAME,
+      consumer,
+      { key: this.key, id: ">" },
+      { COUNT: count, BLOCK: blockMs },
+    ) as
+      | Array<{ messages: Array<{ id: string; message: EntryFields }> }>
+      | null;
+
+    if (!reply) {
+      return [];
+    }
+    return reply.flatMap((stream) =>
+      stream.messages.map((entry) => parseEntry(entry.id, entry.message))
+    );
+  }
+
+  /**
+   * Take over events that were read by some consumer but not acknowledged
+   * within `minIdleMs`, such as those of a crashed worker
+   * @param startId - Pending entry ID to claim from, the `nextId` of the
+   *   previous claim to continue where it stopped
+   */
+  async claim(
+    consumer: string,
+    minIdleMs: number,
+    count: number,
+    startId = "0-0",
+  ): Promise<ClaimedEvents> {
+    const reply = await this.redis.xAutoClaim(
+      this.key,
+      GROUP_NAME,
+      consumer,
+      minIdleMs,
+      startId,
+      { COUNT: count },
+    );
+
+    const entries: EventStreamEntry[] = [];
+    for (const entry of reply.messages) {
+      if (entry) {
+        entries.push(parseEntry(entry.id, entry.message));
+      }
+    }
+    return { entries, nextId: reply.nextId };
+  }
+
+  /**
+   * Acknowledge stored events and remove them from the stream
+   */
+  async ack(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    const pipeline = this.redis.multi();
+    pipeline.xAck(this.key, GROUP_NAME, ids);
+    pipeline.xDel(this.key, ids);
+    await pipeline.exec();
+  }
+
+  /**
+   * Queue a rejected event again, or move it to the dead-letter queue once it
+   * has failed `maxAttempts` times
+   * @returns true if the event was dead-lettered
+   */
+  async fail(
+    entry: EventStreamEntry & { event: NostrEvent },
+    reason: string,
+    maxAttempts: number,
+  ): Promise<boolean> {
+    const attempts = entry.attempts + 1;
+    const dead = attempts >= maxAttempts;
+
+    const pipeline = this.redis.multi();
+    if (dead) {
+      const deadLetter: DeadLetter = {
+        event: entry.event,
+        reason,
+        attempts,
+        failed_at: Math.floor(Date.now() / 1000),
+      };
+      pipeline.hSet(this.deadKey, entry.event.id, JSON.stringify(deadLetter));
+    } else {
+      pipeline.xAdd(this.key, "*", {
+        event: JSON.stringify(entry.event),
+        attempts: attempts.toString(),
+        ...(entry.ack && { ack: entry.ack }),
+      });
+    }
+    pipeline.xAck(this.key, GROUP_NAME, entry.id);
+    pipeline.xDel(this.key, entry.id);
+    await pipeline.exec();
+
+    return dead;
+  }
+
+  async listDeadLetters(): Promise<DeadLetter[]> {
+    const deadLetters = await this.redis.hGetAll(this.deadKey);
+    return Object.values(deadLetters).map((deadLetter) =>
+      JSON.parse(deadLetter as string) as DeadLetter
+    );
+  }
+
+  /**
+   * Queue a dead-lettered event again with a fresh attempt count
+   * @returns false if no event with this ID is dead-lettered
+   */
+  async retryDeadLetter(id: string): Promise<boolean> {
+    const deadLetter = await this.redis.hGet(this.deadKey, id);
+    if (!deadLetter) {
+      return false;
+    }
+
+    const { event } = JSON.parse(deadLetter) as DeadLetter;
+    const pipeline = this.redis.multi();
+    pipeline.xAdd(this.key, "*", { event: JSON.stringify(event) });
+    pipeline.hDel(this.deadKey, id);
+    await pipeline.exec();
+    return true;
+  }
+
+  /**
+   * Drop a dead-lettered event
+   * @returns false if no event with this ID is dead-lettered
+   */
+  async discardDeadLetter(id: string): Promise<boolean> {
+    return (await this.redis.hDel(this.deadKey, id)) > 0;
+  }
+
+  /**
+   * Remove consumers that have no pending events and have been idle for
+   * `minIdleMs`, left behind by workers that stopped
+   */
+  async removeIdleConsumers(minIdleMs: number): Promise<number> {
+    const consumers = await this.redis.xInfoConsumers(this.key, GROUP_NAME);
+
+    let removed = 0;
+    for (const consumer of consumers) {
+      if (consumer.pending === 0 && consumer.idle >= minIdleMs) {
+        await this.redis.xGroupDelConsumer(
+          this.key,
+          GROUP_NAME,
+          consumer.name,
+        );
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Move the events left in the list that queued them before the stream
+   * existed, so they're still stored after an upgrade
+   * @returns The number of events moved
+   */
+  async drainLegacyQueue(
+    legacyKey = "nostr:events:queue",
+    batchSize = 1000,
+  ): Promise<number> {
+    let moved = 0;
+    while (true) {
+      const count = await this.redis.eval(DRAIN_SCRIPT, {
+        keys: [legacyKey, this.key],
+        arguments: [batchSize.toString()],
+      }) as number;
+      if (count === 0) return moved;
+      moved += count;
+    }
+  }
+
+  /**
+   * Number of events in the stream, including pending ones
+   */
+  async length(): Promise<number> {
+    return await this.redis.xLen(this.key);
+  }
+}
+
+interface EntryFields {
+  event?: string;
+  attempts?: string;
+  ack?: string;
+}
+
+function parseEntry(id: string, fields: EntryFields): EventStreamEntry {
+  const attempts = parseInt(fields.attempts ?? "0") || 0;
+  const ack = fields.ack ? { ack: fields.ack } : {};
+  try {
+    return {
+      id,
+      event: JSON.parse(fields.event ?? "") as NostrEvent,
+      attempts,
+      ...ack,
+    };
+  } catch {
+    return { id, attempts, ...ack };
+  }
+}
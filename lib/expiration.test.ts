@@ -0,0 +1,53 @@
+import { assertEquals } from "@std/assert";
+import type { NostrEvent } from "@nostrify/nostrify";
+import { getEventExpiration, isEventExpired } from "./expiration.ts";
+
+// Helper to create test events
+function createTestEvent(overrides: Partial<NostrEvent> = {}): NostrEvent {
+  return {
+    id: crypto.randomUUID().replace(/-/g, ""),
+    pubkey: "0".repeat(64),
+    created_at: Math.floor(Date.now() / 1000),
+    kind: 1,
+    tags: [],
+    content: "test event",
+    sig: "0".repeat(128),
+    ...overrides,
+  };
+}
+
+Deno.test("getEventExpiration - reads expiration tag", () => {
+  const event = createTestEvent({ tags: [["expiration", "1700000000"]] });
+  assertEquals(getEventExpiration(event), 1700000000);
+});
+
+Deno.test("getEventExpiration - missing or invalid tag", () => {
+  assertEquals(getEventExpiration(createTestEvent()), undefined);
+  assertEquals(
+    getEventExpiration(createTestEvent({ tags: [["expiration"]] })),
+    undefined,
+  );
+  assertEquals(
+    getEventExpiration(createTestEvent({ tags: [["expiration", "soon"]] })),
+    undefined,
+  );
+});
+
+Deno.test("isEventExpired - past, future and no expiration", () => {
+  const now = Math.floor(Date.now() / 1000);
+
+  const expired = createTestEvent({
+    tags: [["expiration", (now - 60).toString()]],
+  });
+  const notExpired = createTestEvent({
+    tags: [["expiration", (now + 60).toString()]],
+  });
+
+  assertEquals(isEventExpired(expired), true);
+  assertEquals(isEventExpired(notExpired), false);
+  assertEquals(isEventExpired(createTestEvent()), false);
+
+  // Expiration is inclusive of the current second
+  assertEquals(isEventExpired(expired, now - 60), true);
+  assertEquals(isEventExpired(expired, now - 61), false);
+});
@@ -0,0 +1,36 @@
+import type { NostrEvent } from "@nostrify/nostrify";
+
+/**
+ * NIP-40 Expiration Timestamp
+ * Events with an `expiration` tag must not be served after that time
+ */
+
+/**
+ * Get the expiration timestamp of an event, if it has a valid `expiration` tag
+ */
+export function getEventExpiration(event: NostrEvent): number | undefined {
+  const expirationTag = event.tags.find((tag) => tag[0] === "expiration");
+  if (!expirationTag || expirationTag.length < 2) {
+    return undefined;
+  }
+
+  const expiration = parseInt(expirationTag[1], 10);
+  if (isNaN(expiration) || expiration < 0) {
+    return undefined;
+  }
+
+  return expiration;
+}
+
+/**
+ * Check if an event has expired
+ * @param event The event to check
+ * @param now Current unix timestamp in seconds (defaults to now)
+ */
+export function isEventExpired(
+  event: NostrEvent,
+  now = Math.floor(Date.now() / 1000),
+): boolean {
+  const expiration = getEventExpiration(event);
+  return expiration !== undefined && expiration <= now;
+}
@@ -0,0 +1,172 @@
+import { assertEquals } from "@std/assert";
+import { createClient as createRedisClient, type RedisClientType } from "redis";
+import { InboundQueue } from "./inbound-queue.ts";
+
+// Helper to create a fresh Redis connection and queue
+async function setup() {
+  const redis: RedisClientType = createRedisClient({
+    url: Deno.env.get("REDIS_URL") || "redis://localhost:6379",
+  });
+  await redis.connect();
+  await redis.del(["nostr:relay:ready", "nostr:relay:leases"]);
+  const queue = new InboundQueue(redis);
+  return { redis, queue };
+}
+
+// Helper to clean up queues
+async function cleanup(redis: RedisClientType, connIds: string[]) {
+  await redis.del([
+    "nostr:relay:ready",
+    "nostr:relay:leases",
+    ...connIds.map((connId) => `nostr:relay:queue:${connId}`),
+  ]);
+  await redis.quit();
+}
+
+Deno.test("InboundQueue - messages of a connection are popped in order", async () => {
+  const { redis, queue } = await setup();
+
+  try {
+    await queue.push("test-conn-a", '["REQ","1",{}]', "1.2.3.4", 10);
+    await queue.push("test-conn-a", '["CLOSE","1"]', "1.2.3.4", 10);
+
+    const req = await queue.pop(1);
+    assertEquals(req?.connId, "test-conn-a");
+    assertEquals(req?.msg, '["REQ","1",{}]');
+    assertEquals(req?.ip, "1.2.3.4");
+    await queue.release(req!);
+
+    const close = await queue.pop(1);
+    assertEquals(close?.msg, '["CLOSE","1"]');
+    await queue.release(close!);
+
+    // Empty queues leave the ready list
+    assertEquals(await queue.readyConnections(), 0);
+  } finally {
+    await cleanup(redis, ["test-conn-a"]);
+  }
+});
+
+Deno.test("InboundQueue - connections take turns", async () => {
+  const { redis, queue } = await setup();
+
+  try {
+    for (let i = 0; i < 3; i++) {
+      await queue.push("test-conn-flood", `flood ${i}`, undefined, 10);
+    }
+    await queue.push("test-conn-quiet", "quiet", undefined, 10);
+
+    const popped = [];
+    for (let i = 0; i < 4; i++) {
+      const message = await queue.pop(1);
+      popped.push(message?.msg);
+      await queue.release(message!);
+    }
+
+    assertEquals(popped, ["flood 0", "quiet", "flood 1", "flood 2"]);
+  } finally {
+    await cleanup(redis, ["test-conn-flood", "test-conn-quiet"]);
+  }
+});
+
+Deno.test("InboundQueue - backlog is bounded per connection", async () => {
+  const { redis, queue } = await setup();
+
+  try {
+    assertEquals(await queue.push("test-conn-a", "1", undefined, 2), true);
+    assertEquals(await queue.push("test-conn-a", "2", undefined, 2), true);
+    assertEquals(await queue.push("test-conn-a", "3", undefined, 2), false);
+    assertEquals(await queue.backlog("test-conn-a"), 2);
+
+    // Other connections are unaffected
+    assertEquals(await queue.push("test-conn-b", "1", undefined, 2), true);
+  } finally {
+    await cleanup(redis, ["test-conn-a", "test-conn-b"]);
+  }
+});
+
+Deno.test("InboundQueue - cleared connections are skipped", async () => {
+  const { redis, queue } = await setup();
+
+  try {
+    await queue.push("test-conn-closed", "1", undefined, 10);
+    await queue.clear("test-conn-closed");
+
+    assertEquals(await queue.pop(1), undefined);
+    assertEquals(await queue.readyConnections(), 0);
+  } finally {
+    await cleanup(redis, ["test-conn-closed"]);
+  }
+});
+
+Deno.test("InboundQueue - leased connections wait for release", async () => {
+  const { redis, queue } = await setup();
+
+  try {
+    await queue.push("test-conn-a", "REQ", undefined, 10);
+    await queue.push("test-conn-a", "CLOSE", undefined, 10);
+    await queue.push("test-conn-b", "EVENT", undefined, 10);
+
+    // While a worker handles REQ, others only get other connections
+    const req = await queue.pop(1);
+    assertEquals(req?.msg, "REQ");
+    const event = await queue.pop(1);
+    assertEquals(event?.msg, "EVENT");
+    await queue.release(event!);
+    assertEquals(await queue.pop(1), undefined);
+
+    // Messages queued during the lease wait for it too
+    await queue.push("test-conn-a", "REQ 2", undefined, 10);
+    assertEquals(await queue.pop(1), undefined);
+
+    assertEquals(await queue.release(req!), true);
+    const close = await queue.pop(1);
+    assertEquals(close?.msg, "CLOSE");
+    await queue.release(close!);
+    assertEquals((await queue.pop(1))?.msg, "REQ 2");
+  } finally {
+    await cleanup(redis, ["test-conn-a", "test-conn-b"]);
+  }
+});
+
+Deno.test("InboundQueue - expired leases are recovered", async () => {
+  const { redis } = await setup();
+  const queue = new InboundQueue(redis, 10);
+
+  try {
+    await queue.push("test-conn-a", "1", undefined, 10);
+    await queue.push("test-conn-a", "2", undefined, 10);
+
+    // The worker taking the first message dies
+    const abandoned = await queue.pop(1);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    assertEquals(await queue.recoverExpiredLeases(), 1);
+    assertEquals((await queue.pop(1))?.msg, "2");
+
+    // A late release of the expired lease has no effect
+    assertEquals(await queue.release(abandoned!), false);
+  } finally {
+    await cleanup(redis, ["test-conn-a"]);
+  }
+});
+
+Deno.test("InboundQueue - extended leases aren't recovered", async () => {
+  const { redis } = await setup();
+  const queue = new InboundQueue(redis, 100);
+
+  try {
+    await queue.push("test-conn-a", "1", undefined, 10);
+
+    // The worker is still handling the message when its lease would expire
+    const message = await queue.pop(1);
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    assertEquals(await queue.extend(message!), true);
+    await new Promise((resolve) => setTimeout(resolve, 60));
+
+    assertEquals(await queue.recoverExpiredLeases(), 0);
+    assertEquals(await queue.release(message!), true);
+  } finally {
+    await cleanup(redis, ["test-conn-a"]);
+  }
+});
@@ -0,0 +1,246 @@
+/**
+ * Fair, ordered queueing of client messages for relay workers
+ *
+ * Each connection has its own bounded queue of raw messages, and connections
+ * with queued messages take turns in a ready list. Workers rotate the ready
+ * list and take one message per turn, so a flooding connection only delays its
+ * own messages and is shed once its own backlog is full.
+ *
+ * Taking a message leases its connection to the worker until it releases it
+ * after handling the message, so messages of a connection are handled one at a
+ * time and in order, while different connections are handled in parallel.
+ *
+ * Workers extend the lease while a message takes long to handle, such as a
+ * large NEG-OPEN scan or a durable acknowledgement waiting for storage.
+ *
+ * A connection is in the ready list while its queue is non-empty and it isn't
+ * leased. Rotating rather than popping the ready list keeps connections in it
+ * if a worker dies between the two steps, and leases of dead workers expire
+ * and are recovered by recoverExpiredLeases().
+ *
+ * Redis Keys:
+ * - `nostr:relay:queue:{connId}` - Queued messages of a connection (list)
+ * - `nostr:relay:ready` - Connections with queued messages, in turn order (list)
+ * - `nostr:relay:leases` - Leased connections by lease expiry in ms (sorted set)
+ */
+
+import type { RedisClientType } from "redis";
+
+const READY_KEY = "nostr:relay:ready";
+const LEASES_KEY = "nostr:relay:leases";
+
+// Queues of connections whose server died are cleaned up after this long
+const QUEUE_TTL_SECONDS = 300;
+
+/**
+ * Message taken from a connection's queue
+ */
+export interface InboundMessage {
+  connId: string;
+  /** Raw message as received from the client */
+  msg: string;
+  /** Client IP address, resolved by the server */
+  ip?: string;
+  /** Expiry of the connection's lease, identifying it on release */
+  lease: number;
+}
+
+// Returns the new queue length, or -1 if the queue is full
+const PUSH_SCRIPT = `
+local length = redis.call("LLEN", KEYS[1])
+if length >= tonumber(ARGV[3]) then
+  return -1
+end
+redis.call("RPUSH", KEYS[1], ARGV[1])
+redis.call("EXPIRE", KEYS[1], ARGV[4])
+if length == 0 and not redis.call("ZSCORE", KEYS[3], ARGV[2]) then
+  redis.call("RPUSH", KEYS[2], ARGV[2])
+end
+return length + 1
+`;
+
+// Leases the connection and returns its oldest message with the lease expiry
+const POP_SCRIPT = `
+redis.call("LREM", KEYS[2], 1, ARGV[1])
+if redis.call("ZSCORE", KEYS[3], ARGV[1]) then
+  return nil
+end
+local message = redis.call("LPOP", KEYS[1])
+if not message then
+  return nil
+end
+local time = redis.call("TIME")
+local lease = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000) +
+  tonumber(ARGV[2])
+redis.call("ZADD", KEYS[3], lease, ARGV[1])
+return { message, tostring(lease) }
+`;
+
+// Ends a lease, unless it already expired, and gives the connection its next turn
+const RELEASE_SCRIPT = `
+if tonumber(redis.call("ZSCORE", KEYS[3], ARGV[1])) ~= tonumber(ARGV[2]) then
+  return 0
+end
+redis.call("ZREM", KEYS[3], ARGV[1])
+if redis.call("LLEN", KEYS[1]) > 0 then
+  redis.call("RPUSH", KEYS[2], ARGV[1])
+end
+return 1
+`;
+
+// Extends a lease, unless it already expired, and returns the new lease expiry
+const EXTEND_SCRIPT = `
+if tonumber(redis.call("ZSCORE", KEYS[1], ARGV[1])) ~= tonumber(ARGV[2]) then
+  return nil
+end
+local time = redis.call("TIME")
+local lease = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000) +
+  tonumber(ARGV[3])
+redis.call("ZADD", KEYS[1], lease, ARGV[1])
+return tostring(lease)
+`;
+
+// Ends expired leases and returns the number of recovered connections
+const RECOVER_SCRIPT = `
+local time = redis.call("TIME")
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local expired = redis.call("ZRANGEBYSCORE", KEYS[2], "-inf", now)
+for _, connId in ipairs(expired) do
+  redis.call("ZREM", KEYS[2], connId)
+  if redis.call("LLEN", ARGV[1] .. connId) > 0 then
+    redis.call("RPUSH", KEYS[1], connId)
+  end
+end
+return #expired
+`;
+
+const QUEUE_PREFIX = "nostr:relay:queue:";
+
+function queueKey(connId: string): string {
+  return `${QUEUE_PREFIX}${connId}`;
+}
+
+export class InboundQueue {
+  constructor(
+    private redis: RedisClientType,
+    readonly leaseMs = 60000,
+  ) {}
+
+  /**
+   * Queue a message of a connection
+   * @returns false if the connection already has `maxBacklog` queued messages
+   */
+  async push(
+    connId: string,
+    msg: string,
+    ip: string | undefined,
+    maxBacklog: number,
+  ): Promise<boolean> {
+    const result = await this.redis.eval(PUSH_SCRIPT, {
+      keys: [queueKey(connId), READY_KEY, LEASES_KEY],
+      arguments: [
+        JSON.stringify({ msg, ip }),
+        connId,
+        maxBacklog.toString(),
+        QUEUE_TTL_SECONDS.toString(),
+      ],
+    }) as number;
+    return result !== -1;
+  }
+
+  /**
+   * Take the next message, round-robin across connections, and lease its
+   * connection until release() is called
+   * Waits up to `timeoutSeconds` for a connection to have queued messages.
+   */
+  async pop(timeoutSeconds: number): Promise<InboundMessage | undefined> {
+    const connId = await this.redis.blMove(
+      READY_KEY,
+      READY_KEY,
+      "LEFT",
+      "RIGHT",
+      timeoutSeconds,
+    );
+    if (!connId) {
+      return undefined;
+    }
+
+    const result = await this.redis.eval(POP_SCRIPT, {
+      keys: [queueKey(connId), READY_KEY, LEASES_KEY],
+      arguments: [connId, this.leaseMs.toString()],
+    }) as [string, string] | null;
+    if (!result) {
+      return undefined;
+    }
+
+    const [message, lease] = result;
+    const { msg, ip } = JSON.parse(message);
+    return { connId, msg, ip, lease: parseInt(lease) };
+  }
+
+  /**
+   * Release the connection of a handled message, so its next message can be taken
+   * @returns false if the lease had expired and the connection was recovered
+   */
+  async release(message: InboundMessage): Promise<boolean> {
+    const result = await this.redis.eval(RELEASE_SCRIPT, {
+      keys: [queueKey(message.connId), READY_KEY, LEASES_KEY],
+      arguments: [message.connId, message.lease.toString()],
+    }) as number;
+    return result === 1;
+  }
+
+  /**
+   * Extend the lease of a message still being handled by another `leaseMs`
+   * Updates the message's lease, so it's released with the new one.
+   * @returns false if the lease had expired and the connection was recovered
+   */
+  async extend(message: InboundMessage): Promise<boolean> {
+    const lease = await this.redis.eval(EXTEND_SCRIPT, {
+      keys: [LEASES_KEY],
+      arguments: [
+        message.connId,
+        message.lease.toString(),
+        this.leaseMs.toString(),
+      ],
+    }) as string | null;
+    if (lease === null) {
+      return false;
+    }
+
+    message.lease = parseInt(lease);
+    return true;
+  }
+
+  /**
+   * Return connections leased by workers that died to the ready list
+   * @returns The number of expired leases
+   */
+  async recoverExpiredLeases(): Promise<number> {
+    return await this.redis.eval(RECOVER_SCRIPT, {
+      keys: [READY_KEY, LEASES_KEY],
+      arguments: [QUEUE_PREFIX],
+    }) as number;
+  }
+
+  /**
+   * Drop the queued messages of a closed connection
+   */
+  async clear(connId: string): Promise<void> {
+    await this.redis.del(queueKey(connId));
+  }
+
+  /**
+   * Number of queued messages of a connection
+   */
+  async backlog(connId: string): Promise<number> {
+    return await this.redis.lLen(queueKey(connId));
+  }
+
+  /**
+   * Number of connections with queued messages
+   */
+  async readyConnections(): Promise<number> {
+    return await this.redis.lLen(READY_KEY);
+  }
+}
@@ -0,0 +1,119 @@
+import { assertEquals } from "@std/assert";
+import {
+  canonicalIP,
+  cidrContains,
+  getClientIP,
+  isValidCidr,
+  isValidIP,
+  matchesAnyCidr,
+  normalizeIP,
+} from "./ip.ts";
+
+Deno.test("isValidIP - IPv4 and IPv6 addresses", () => {
+  assertEquals(isValidIP("192.168.1.1"), true);
+  assertEquals(isValidIP("::1"), true);
+  assertEquals(isValidIP("2001:db8::8a2e:370:7334"), true);
+  assertEquals(isValidIP("2001:0db8:0000:0000:0000:ff00:0042:8329"), true);
+  assertEquals(isValidIP("::ffff:192.0.2.1"), true);
+  assertEquals(isValidIP("[fe80::1%eth0]"), true);
+
+  assertEquals(isValidIP("256.1.1.1"), false);
+  assertEquals(isValidIP("1.2.3"), false);
+  assertEquals(isValidIP("1::2::3"), false);
+  assertEquals(isValidIP("1:2:3:4:5:6:7:8:9"), false);
+  assertEquals(isValidIP("12345::"), false);
+  assertEquals(isValidIP("example.com"), false);
+});
+
+Deno.test("isValidCidr - addresses and ranges", () => {
+  assertEquals(isValidCidr("10.0.0.0/8"), true);
+  assertEquals(isValidCidr("10.0.0.1"), true);
+  assertEquals(isValidCidr("2001:db8::/32"), true);
+  assertEquals(isValidCidr("::/0"), true);
+
+  assertEquals(isValidCidr("10.0.0.0/33"), false);
+  assertEquals(isValidCidr("2001:db8::/129"), false);
+  assertEquals(isValidCidr("10.0.0.0/8/8"), false);
+  assertEquals(isValidCidr("10.0.0.0/abc"), false);
+});
+
+Deno.test("normalizeIP - unwraps IPv4-mapped addresses", () => {
+  assertEquals(normalizeIP("::ffff:192.0.2.1"), "192.0.2.1");
+  assertEquals(normalizeIP("::FFFF:c000:0201"), "192.0.2.1");
+  assertEquals(normalizeIP("2001:DB8::1"), "2001:db8::1");
+});
+
+Deno.test("canonicalIP - same form for every spelling of an address", () => {
+  assertEquals(canonicalIP("::ffff:192.0.2.1"), "192.0.2.1");
+  assertEquals(
+    canonicalIP("2001:DB8::1"),
+    "2001:0db8:0000:0000:0000:0000:0000:0001",
+  );
+  assertEquals(canonicalIP("2001:db8:0:0::1"), canonicalIP("2001:db8::1"));
+  assertEquals(canonicalIP("not an ip"), undefined);
+});
+
+Deno.test("cidrContains - IPv4 ranges", () => {
+  assertEquals(cidrContains("192.168.0.0/16", "192.168.42.1"), true);
+  assertEquals(cidrContains("192.168.0.0/16", "192.169.0.1"), false);
+  assertEquals(cidrContains("192.168.1.1", "192.168.1.1"), true);
+  assertEquals(cidrContains("192.168.1.1", "192.168.1.2"), false);
+  assertEquals(cidrContains("0.0.0.0/0", "8.8.8.8"), true);
+
+  // IPv4-mapped clients match IPv4 ranges, and the other way around
+  assertEquals(cidrContains("192.168.0.0/16", "::ffff:192.168.1.1"), true);
+  assertEquals(cidrContains("::ffff:192.168.0.0/112", "192.168.1.1"), true);
+});
+
+Deno.test("cidrContains - IPv6 ranges", () => {
+  assertEquals(cidrContains("2001:db8::/32", "2001:db8:1234::1"), true);
+  assertEquals(cidrContains("2001:db8::/32", "2001:db9::1"), false);
+  assertEquals(cidrContains("::1", "0:0:0:0:0:0:0:1"), true);
+
+  // Never matches across address families
+  assertEquals(cidrContains("::/0", "192.168.1.1"), false);
+  assertEquals(cidrContains("0.0.0.0/0", "::1"), false);
+  assertEquals(cidrContains("invalid", "::1"), false);
+});
+
+Deno.test("matchesAnyCidr - any of the ranges", () => {
+  const ranges = ["10.0.0.0/8", "2001:db8::/32"];
+
+  assertEquals(matchesAnyCidr("10.1.2.3", ranges), true);
+  assertEquals(matchesAnyCidr("2001:db8::1", ranges), true);
+  assertEquals(matchesAnyCidr("11.0.0.1", ranges), false);
+  assertEquals(matchesAnyCidr("10.1.2.3", []), false);
+});
+
+Deno.test("getClientIP - ignores X-Forwarded-For from untrusted peers", () => {
+  assertEquals(getClientIP("203.0.113.5", "1.2.3.4", []), "203.0.113.5");
+  assertEquals(
+    getClientIP("203.0.113.5", "1.2.3.4", ["10.0.0.0/8"]),
+    "203.0.113.5",
+  );
+});
+
+Deno.test("getClientIP - reads X-Forwarded-For from trusted proxies", () => {
+  const proxies = ["10.0.0.0/8"];
+
+  assertEquals(getClientIP("10.0.0.1", "1.2.3.4", proxies), "1.2.3.4");
+  assertEquals(getClientIP("10.0.0.1", undefined, proxies), "10.0.0.1");
+
+  // Spoofed entries left of the last untrusted hop are ignored
+  assertEquals(
+    getClientIP("10.0.0.1", "6.6.6.6, 1.2.3.4, 10.0.0.2", proxies),
+    "1.2.3.4",
+  );
+
+  // Invalid entries stop the walk at the last trusted hop
+  assertEquals(
+    getClientIP("10.0.0.1", "garbage, 10.0.0.2", proxies),
+    "10.0.0.2",
+  );
+
+  // IPv4-mapped peers are normalized before matching
+  assertEquals(
+    getClientIP("::ffff:10.0.0.1", "2001:db8::1", proxies),
+    "2001:db8::1",
+  );
+});
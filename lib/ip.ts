@@ -0,0 +1,239 @@
+/**
+ * IP address helpers for blocking clients and resolving their address behind
+ * trusted proxies
+ *
+ * Addresses are compared as integers. IPv4-mapped IPv6 addresses
+ * (`::ffff:1.2.3.4`) are treated as the IPv4 address they contain, so a block
+ * on `1.2.3.0/24` also applies to clients of a dual-stack listener.
+ */
+
+interface ParsedIP {
+  version: 4 | 6;
+  value: bigint;
+}
+
+interface ParsedCidr extends ParsedIP {
+  prefix: number;
+}
+
+const BITS = { 4: 32, 6: 128 } as const;
+
+function parseIPv4(ip: string): bigint | undefined {
+  const octets = ip.split(".");
+  if (octets.length !== 4) {
+    return undefined;
+  }
+
+  let value = 0n;
+  for (const octet of octets) {
+    if (!/^\d{1,3}$/.test(octet) || parseInt(octet) > 255) {
+      return undefined;
+    }
+    value = (value << 8n) | BigInt(octet);
+  }
+  return value;
+}
+
+function parseIPv6(ip: string): bigint | undefined {
+  // An embedded IPv4 address fills the last two groups
+  let tail: bigint[] = [];
+  const lastColon = ip.lastIndexOf(":");
+  if (ip.includes(".", lastColon)) {
+    const ipv4 = parseIPv4(ip.slice(lastColon + 1));
+    if (ipv4 === undefined) {
+      return undefined;
+    }
+    tail = [ipv4 >> 16n, ipv4 & 0xffffn];
+    ip = ip.slice(0, lastColon + 1);
+    if (!ip.endsWith("::")) {
+      ip = ip.slice(0, -1);
+    }
+  }
+
+  const halves = ip.split("::");
+  if (halves.length > 2) {
+    return undefined;
+  }
+
+  const parseGroups = (part: string) => part === "" ? [] : part.split(":");
+  const head = parseGroups(halves[0]);
+  const rest = halves.length === 2 ? parseGroups(halves[1]) : [];
+  const groupCount = head.length + rest.length + tail.length;
+
+  if (
+    halves.length === 1 ? groupCount !== 8 : groupCount > 7
+  ) {
+    return undefined;
+  }
+
+  const groups: bigint[] = [];
+  for (const group of [...head, ...rest]) {
+    if (!/^[0-9a-f]{1,4}$/i.test(group)) {
+      return undefined;
+    }
+    groups.push(BigInt(`0x${group}`));
+  }
+
+  const zeros = Array(8 - groupCount).fill(0n);
+  const all = [
+    ...groups.slice(0, head.length),
+    ...zeros,
+    ...groups.slice(head.length),
+    ...tail,
+  ];
+  return all.reduce((value, group) => (value << 16n) | group, 0n);
+}
+
+/**
+ * Parse an IPv4 or IPv6 address, unwrapping IPv4-mapped IPv6 addresses
+ */
+function parseIP(ip: string): ParsedIP | undefined {
+  // Strip brackets and zone IDs, e.g. `[fe80::1%eth0]`
+  const address = ip.trim().replace(/^\[(.*)\]$/, "$1").replace(/%.*$/, "");
+
+  if (!address.includes(":")) {
+    const value = parseIPv4(address);
+    return value === undefined ? undefined : { version: 4, value };
+  }
+
+  const value = parseIPv6(address);
+  if (value === undefined) {
+    return undefined;
+  }
+  if (value >> 32n === 0xffffn) {
+    return { version: 4, value: value & 0xffffffffn };
+  }
+  return { version: 6, value };
+}
+
+/**
+ * Parse an address or CIDR range, where a plain address is a single-address range
+ */
+function parseCidr(cidr: string): ParsedCidr | undefined {
+  const [address, prefixStr, ...rest] = cidr.trim().split("/");
+  if (rest.length > 0) {
+    return undefined;
+  }
+
+  const ip = parseIP(address);
+  if (!ip) {
+    return undefined;
+  }
+
+  const bits = BITS[ip.version];
+  let prefix: number = bits;
+  if (prefixStr !== undefined) {
+    if (!/^\d{1,3}$/.test(prefixStr)) {
+      return undefined;
+    }
+    prefix = parseInt(prefixStr);
+    // IPv4-mapped ranges are written with an IPv6 prefix length
+    if (ip.version === 4 && address.includes(":")) {
+      prefix -= 96;
+    }
+    if (prefix < 0 || prefix > bits) {
+      return undefined;
+    }
+  }
+
+  return { ...ip, prefix };
+}
+
+export function isValidIP(ip: string): boolean {
+  return parseIP(ip) !== undefined;
+}
+
+/**
+ * Check whether a string is an address or CIDR range, e.g. `10.0.0.0/8` or `2001:db8::/32`
+ */
+export function isValidCidr(cidr: string): boolean {
+  return parseCidr(cidr) !== undefined;
+}
+
+/**
+ * Normalize an address for display and storage
+ * IPv4-mapped IPv6 addresses become plain IPv4 addresses
+ */
+export function normalizeIP(ip: string): string {
+  const parsed = parseIP(ip);
+  if (parsed?.version === 4) {
+    const value = parsed.value;
+    return [24n, 16n, 8n, 0n].map((shift) => (value >> shift) & 0xffn).join(
+      ".",
+    );
+  }
+  return ip.trim().toLowerCase();
+}
+
+/**
+ * Canonical form of an address, the same for every way of writing it
+ * IPv4 addresses are dotted quads and IPv6 addresses are fully expanded.
+ * Returns undefined for invalid addresses.
+ */
+export function canonicalIP(ip: string): string | undefined {
+  const parsed = parseIP(ip);
+  if (!parsed) {
+    return undefined;
+  }
+  if (parsed.version === 4) {
+    return normalizeIP(ip);
+  }
+  return parsed.value.toString(16).padStart(32, "0").match(/.{4}/g)!.join(
+    ":",
+  );
+}
+
+/**
+ * Check whether an address is within a CIDR range (or equal to an address)
+ */
+export function cidrContains(cidr: string, ip: string): boolean {
+  const range = parseCidr(cidr);
+  const address = parseIP(ip);
+  if (!range || !address || range.version !== address.version) {
+    return false;
+  }
+
+  const shift = BigInt(BITS[range.version] - range.prefix);
+  return (range.value >> shift) === (address.value >> shift);
+}
+
+/**
+ * Check whether an address is within any of the CIDR ranges
+ */
+export function matchesAnyCidr(ip: string, cidrs: string[]): boolean {
+  return cidrs.some((cidr) => cidrContains(cidr, ip));
+}
+
+/**
+ * Resolve the client address of a request
+ *
+ * The `X-Forwarded-For` header is only used when the peer is a trusted proxy.
+ * It's read from right to left, skipping trusted proxies, since only the
+ * entries appended by trusted proxies can be relied upon.
+ *
+ * @param peer - Address of the peer that opened the connection
+ * @param forwardedFor - Value of the `X-Forwarded-For` header, if any
+ * @param trustedProxies - CIDR ranges of trusted reverse proxies
+ */
+export function getClientIP(
+  peer: string,
+  forwardedFor: string | undefined,
+  trustedProxies: string[],
+): string {
+  let client = normalizeIP(peer);
+  if (!forwardedFor || !matchesAnyCidr(client, trustedProxies)) {
+    return client;
+  }
+
+  const hops = forwardedFor.split(",").map((hop) => hop.trim()).reverse();
+  for (const hop of hops) {
+    if (!isValidIP(hop)) {
+      break;
+    }
+    client = normalizeIP(hop);
+    if (!matchesAnyCidr(client, trustedProxies)) {
+      break;
+    }
+  }
+  return client;
+}
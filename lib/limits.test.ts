@@ -0,0 +1,107 @@
+import { assertEquals } from "@std/assert";
+import type { NostrEvent } from "@nostrify/nostrify";
+import {
+  byteLength,
+  checkEventLimits,
+  clampFilterLimit,
+  DEFAULT_LIMITS,
+} from "./limits.ts";
+
+// Helper to create test events
+function createTestEvent(overrides: Partial<NostrEvent> = {}): NostrEvent {
+  return {
+    id: "0".repeat(64),
+    pubkey: "0".repeat(64),
+    created_at: Math.floor(Date.now() / 1000),
+    kind: 1,
+    tags: [],
+    content: "test event",
+    sig: "0".repeat(128),
+    ...overrides,
+  };
+}
+
+Deno.test("checkEventLimits - accepts events within limits", () => {
+  assertEquals(checkEventLimits(createTestEvent(), DEFAULT_LIMITS), undefined);
+});
+
+Deno.test("checkEventLimits - tags and content length", () => {
+  const limits = {
+    ...DEFAULT_LIMITS,
+    max_event_tags: 2,
+    max_content_length: 5,
+  };
+
+  assertEquals(
+    checkEventLimits(createTestEvent({ tags: [["t", "a"], ["t", "b"]] }), {
+      ...limits,
+      max_content_length: 100,
+    }),
+    undefined,
+  );
+  assertEquals(
+    checkEventLimits(
+      createTestEvent({ tags: [["t", "a"], ["t", "b"], ["t", "c"]] }),
+      limits,
+    )?.startsWith("invalid:"),
+    true,
+  );
+  assertEquals(
+    checkEventLimits(createTestEvent({ content: "too long" }), limits)
+      ?.startsWith("invalid:"),
+    true,
+  );
+});
+
+Deno.test("checkEventLimits - created_at bounds", () => {
+  const now = 1700000000;
+  const limits = {
+    ...DEFAULT_LIMITS,
+    created_at_lower_limit: 60,
+    created_at_upper_limit: 10,
+  };
+
+  assertEquals(
+    checkEventLimits(createTestEvent({ created_at: now + 10 }), limits, now),
+    undefined,
+  );
+  assertEquals(
+    checkEventLimits(createTestEvent({ created_at: now + 11 }), limits, now),
+    "invalid: created_at is too far in the future",
+  );
+  assertEquals(
+    checkEventLimits(createTestEvent({ created_at: now - 61 }), limits, now),
+    "invalid: created_at is too far in the past",
+  );
+
+  // 0 disables both bounds
+  assertEquals(
+    checkEventLimits(
+      createTestEvent({ created_at: now + 100000 }),
+      { ...limits, created_at_upper_limit: 0 },
+      now,
+    ),
+    undefined,
+  );
+  assertEquals(
+    checkEventLimits(createTestEvent({ created_at: 0 }), DEFAULT_LIMITS, now),
+    undefined,
+  );
+});
+
+Deno.test("clampFilterLimit - applies default and maximum", () => {
+  assertEquals(clampFilterLimit({ kinds: [1] }, DEFAULT_LIMITS), {
+    kinds: [1],
+    limit: 500,
+  });
+  assertEquals(clampFilterLimit({ limit: 10000 }, DEFAULT_LIMITS), {
+    limit: 5000,
+  });
+  assertEquals(clampFilterLimit({ limit: 0 }, DEFAULT_LIMITS), { limit: 0 });
+});
+
+Deno.test("byteLength - counts UTF-8 bytes", () => {
+  assertEquals(byteLength("abc"), 3);
+  assertEquals(byteLength("é"), 2);
+  assertEquals(byteLength("🎉"), 4);
+});
@@ -0,0 +1,99 @@
+import type { NostrEvent, NostrFilter } from "@nostrify/nostrify";
+
+/**
+ * Relay limits (NIP-11 `limitation`)
+ * The same values are advertised in the relay information document and
+ * enforced by the server and relay workers
+ */
+export interface RelayLimits {
+  /** Maximum length of a WebSocket message in bytes */
+  max_message_length: number;
+  /** Maximum number of open subscriptions per connection */
+  max_subscriptions: number;
+  /** Maximum `limit` of a filter, larger values are clamped */
+  max_limit: number;
+  /** Maximum length of a subscription ID */
+  max_subid_length: number;
+  /** Maximum number of tags of an event */
+  max_event_tags: number;
+  /** Maximum length of an event's content */
+  max_content_length: number;
+  /** Events older than this many seconds are rejected (0 disables) */
+  created_at_lower_limit: number;
+  /** Events more than this many seconds in the future are rejected (0 disables) */
+  created_at_upper_limit: number;
+  /** `limit` applied to filters that don't specify one */
+  default_limit: number;
+}
+
+export const DEFAULT_LIMITS: RelayLimits = {
+  max_message_length: 500000, // 500KB max message
+  max_subscriptions: 300, // Max 300 subscriptions per connection
+  max_limit: 5000, // Max 5000 events per filter
+  max_subid_length: 100, // Max subscription ID length
+  max_event_tags: 100, // Max tags per event
+  max_content_length: 500000, // Max content length
+  created_at_lower_limit: 0, // No lower limit on created_at
+  created_at_upper_limit: 3600, // 1 hour in future
+  default_limit: 500, // Default limit if not specified
+};
+
+const encoder = new TextEncoder();
+
+/**
+ * Length of a message in bytes as sent over the wire (UTF-8), which is what
+ * `max_message_length` limits, rather than in UTF-16 code units
+ */
+export function byteLength(message: string): number {
+  return encoder.encode(message).byteLength;
+}
+
+/**
+ * Check an event against the relay limits
+ * @param event The event to check
+ * @param limits The relay limits
+ * @param now Current unix timestamp in seconds (defaults to now)
+ * @returns An `invalid:` reason if the event violates a limit
+ */
+export function checkEventLimits(
+  event: NostrEvent,
+  limits: RelayLimits,
+  now = Math.floor(Date.now() / 1000),
+): string | undefined {
+  if (event.tags.length > limits.max_event_tags) {
+    return `invalid: too many tags (max ${limits.max_event_tags})`;
+  }
+
+  if (event.content.length > limits.max_content_length) {
+    return `invalid: content too long (max ${limits.max_content_length})`;
+  }
+
+  if (
+    limits.created_at_upper_limit > 0 &&
+    event.created_at > now + limits.created_at_upper_limit
+  ) {
+    return "invalid: created_at is too far in the future";
+  }
+
+  if (
+    limits.created_at_lower_limit > 0 &&
+    event.created_at < now - limits.created_at_lower_limit
+  ) {
+    return "invalid: created_at is too far in the past";
+  }
+
+  return undefined;
+}
+
+/**
+ * Apply the default and maximum `limit` to a filter
+ */
+export function clampFilterLimit(
+  filter: NostrFilter,
+  limits: RelayLimits,
+): NostrFilter {
+  return {
+    ...filter,
+    limit: Math.min(filter.limit ?? limits.default_limit, limits.max_limit),
+  };
+}
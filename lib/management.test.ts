@@ -1,6 +1,7 @@
 import { assertEquals } from "@std/assert";
 import { createClient as createRedisClient, type RedisClientType } from "redis";
 import { RelayManagement } from "./management.ts";
+import { DEFAULT_RATE_LIMITS } from "./rate-limit.ts";
 import type { NostrFilter, NRelay } from "@nostrify/nostrify";
 
 // Helper to create a fresh Redis connection and management instance
@@ -17,9 +18,15 @@ async function setup() {
 async function cleanup(redis: RedisClientType) {
   await redis.del("relay:banned:pubkeys");
   await redis.del("relay:allowed:pubkeys");
+  await redis.del("relay:vanished:pubkeys");
   await redis.del("relay:banned:events");
   await redis.del("relay:allowed:kinds");
+  await redis.del("relay:pow:min");
+  await redis.del("relay:pow:kinds");
+  await redis.del("relay:ratelimits");
   await redis.del("relay:blocked:ips");
+  await redis.del("relay:blocked:ips:addresses");
+  await redis.del("relay:blocked:ips:ranges");
   await redis.del("relay:metadata:name");
   await redis.del("relay:metadata:description");
   await redis.del("relay:metadata:icon");
@@ -83,6 +90,35 @@ Deno.test("RelayManagement - allow pubkeys (allowlist)", async () => {
   await cleanup(redis);
 });
 
+Deno.test("RelayManagement - track requests to vanish", async () => {
+  const { redis, management } = await setup();
+
+  const pubkey = "a".repeat(64);
+
+  // Record a pending request
+  assertEquals(await management.recordVanishRequest(pubkey, 1000), true);
+  assertEquals(await management.listVanishedPubkeys(), [
+    { pubkey, created_at: 1000, status: "pending" },
+  ]);
+
+  // Older requests don't replace newer ones
+  assertEquals(await management.recordVanishRequest(pubkey, 900), false);
+  assertEquals(await management.completeVanishRequest(pubkey, 900, 5), false);
+
+  // Complete the request
+  assertEquals(await management.completeVanishRequest(pubkey, 1000, 42), true);
+  assertEquals(await management.getVanishRequest(pubkey), {
+    pubkey,
+    created_at: 1000,
+    status: "completed",
+    deleted: 42,
+  });
+
+  assertEquals(await management.getVanishRequest("b".repeat(64)), null);
+
+  await cleanup(redis);
+});
+
 Deno.test("RelayManagement - ban and allow events", async () => {
   const { redis, management } = await setup();
 
@@ -138,6 +174,68 @@ Deno.test("RelayManagement - allow and disallow kinds", async () => {
   await cleanup(redis);
 });
 
+Deno.test("RelayManagement - PoW difficulty with per-kind overrides", async () => {
+  const { redis, management } = await setup();
+
+  // Initially no PoW is required
+  assertEquals(await management.getMinPowDifficulty(), 0);
+  assertEquals(await management.getRequiredPowDifficulty(1), 0);
+
+  // Set global minimum
+  await management.setMinPowDifficulty(16);
+  assertEquals(await management.getRequiredPowDifficulty(1), 16);
+
+  // Per-kind overrides take precedence, including lowering to 0
+  await management.setKindPowDifficulty(1, 24);
+  await management.setKindPowDifficulty(7, 0);
+  assertEquals(await management.getRequiredPowDifficulty(1), 24);
+  assertEquals(await management.getRequiredPowDifficulty(7), 0);
+  assertEquals(await management.getRequiredPowDifficulty(3), 16);
+
+  // List overrides
+  assertEquals(await management.listKindPowDifficulties(), [
+    { kind: 1, difficulty: 24 },
+    { kind: 7, difficulty: 0 },
+  ]);
+
+  // Remove an override
+  await management.removeKindPowDifficulty(1);
+  assertEquals(await management.getRequiredPowDifficulty(1), 16);
+
+  await cleanup(redis);
+});
+
+Deno.test("RelayManagement - set and remove rate limits", async () => {
+  const { redis, management } = await setup();
+
+  // Defaults apply until overridden
+  let limits = await management.getRateLimits();
+  assertEquals(limits["ip:event"], DEFAULT_RATE_LIMITS["ip:event"]);
+  assertEquals(limits["pubkey:kind:1"], undefined);
+
+  await management.setRateLimit("ip:event", { rate: 1, burst: 5 });
+  await management.setRateLimit("pubkey:kind:1", { rate: 2, burst: 10 });
+
+  limits = await management.getRateLimits();
+  assertEquals(limits["ip:event"], { rate: 1, burst: 5 });
+  assertEquals(limits["pubkey:kind:1"], { rate: 2, burst: 10 });
+
+  const rules = await management.listRateLimits();
+  assertEquals(
+    rules.find((rule) => rule.rule === "pubkey:kind:1"),
+    { rule: "pubkey:kind:1", rate: 2, burst: 10 },
+  );
+
+  // Removing an override restores the default
+  await management.removeRateLimit("ip:event");
+  await management.removeRateLimit("pubkey:kind:1");
+  limits = await management.getRateLimits();
+  assertEquals(limits["ip:event"], DEFAULT_RATE_LIMITS["ip:event"]);
+  assertEquals(limits["pubkey:kind:1"], undefined);
+
+  await cleanup(redis);
+});
+
 Deno.test("RelayManagement - block and unblock IPs", async () => {
   const { redis, management } = await setup();
 
@@ -165,6 +263,46 @@ Deno.test("RelayManagement - block and unblock IPs", async () => {
   await cleanup(redis);
 });
 
+Deno.test("RelayManagement - block IPv4 and IPv6 CIDR ranges", async () => {
+  const { redis, management } = await setup();
+
+  await management.blockIP("203.0.113.0/24", "abusive network");
+  await management.blockIP("2001:db8::/32");
+
+  assertEquals(await management.isIPBlocked("203.0.113.42"), true);
+  assertEquals(await management.isIPBlocked("::ffff:203.0.113.42"), true);
+  assertEquals(await management.isIPBlocked("203.0.114.1"), false);
+  assertEquals(await management.isIPBlocked("2001:db8:abcd::1"), true);
+  assertEquals(await management.isIPBlocked("2001:db9::1"), false);
+
+  await management.unblockIP("203.0.113.0/24");
+  assertEquals(await management.isIPBlocked("203.0.113.42"), false);
+
+  await cleanup(redis);
+});
+
+Deno.test("RelayManagement - blocked addresses match however they're written", async () => {
+  const { redis, management } = await setup();
+
+  await management.blockIP("2001:DB8::1");
+  await management.blockIP("192.0.2.1");
+
+  assertEquals(await management.isIPBlocked("2001:db8:0:0::1"), true);
+  assertEquals(await management.isIPBlocked("::ffff:192.0.2.1"), true);
+  assertEquals(await management.isIPBlocked("2001:db8::2"), false);
+
+  // Blocks recorded before the address and range sets existed
+  await redis.hSet("relay:blocked:ips", "198.51.100.7", "");
+  await redis.hSet("relay:blocked:ips", "198.51.100.0/28", "");
+  await management.indexBlockedIPs();
+
+  assertEquals(await management.isIPBlocked("198.51.100.7"), true);
+  assertEquals(await management.isIPBlocked("198.51.100.9"), true);
+  assertEquals(await management.isIPBlocked("2001:db8::1"), true);
+
+  await cleanup(redis);
+});
+
 Deno.test("RelayManagement - relay metadata", async () => {
   const { redis, management } = await setup();
 
@@ -196,12 +334,23 @@ Deno.test("RelayManagement - supported methods", async () => {
     "listbannedpubkeys",
     "allowpubkey",
     "listallowedpubkeys",
+    "listvanishedpubkeys",
     "banevent",
     "allowevent",
     "listbannedevents",
+    "listdeadletterevents",
+    "retrydeadletterevent",
+    "discarddeadletterevent",
     "allowkind",
     "disallowkind",
     "listallowedkinds",
+    "setminpowdifficulty",
+    "setkindpowdifficulty",
+    "removekindpowdifficulty",
+    "listpowdifficulties",
+    "setratelimit",
+    "removeratelimit",
+    "listratelimits",
     "blockip",
     "unblockip",
     "listblockedips",
@@ -1,5 +1,7 @@
 import type { RedisClientType } from "redis";
 import type { NRelay } from "@nostrify/nostrify";
+import { canonicalIP, matchesAnyCidr } from "./ip.ts";
+import { DEFAULT_RATE_LIMITS, type RateLimit } from "./rate-limit.ts";
 
 /**
  * NIP-86 Relay Management
@@ -21,6 +23,22 @@ export interface BannedEvent {
   reason?: string;
 }
 
+export interface VanishRequest {
+  pubkey: string;
+  created_at: number;
+  status: "pending" | "completed";
+  deleted?: number;
+}
+
+export interface KindPowDifficulty {
+  kind: number;
+  difficulty: number;
+}
+
+export interface RateLimitRule extends RateLimit {
+  rule: string;
+}
+
 export interface BlockedIP {
   ip: string;
   reason?: string;
@@ -42,6 +60,12 @@ export class RelayManagement {
   private redis: RedisClientType;
   private relay?: NRelay;
 
+  // Blocked CIDR ranges are cached briefly, so blocks apply within a few
+  // seconds without a Redis call per check
+  private blockedRanges?: string[];
+  private blockedRangesLoadedAt = 0;
+  private blockedRangesTtlMs = 5000;
+
   constructor(redis: RedisClientType, relay?: NRelay) {
     this.redis = redis;
     this.relay = relay;
@@ -154,6 +178,86 @@ export class RelayManagement {
     return result === 1;
   }
 
+  // ============================================================================
+  // Requests to Vanish (NIP-62)
+  // ============================================================================
+
+  /**
+   * Record a pending request to vanish
+   *
+   * Deletion is handled separately by the management worker, which calls
+   * completeVanishRequest() when done. Only the newest request per pubkey is kept.
+   *
+   * @param pubkey - The pubkey that requested to vanish (hex format)
+   * @param createdAt - The created_at of the kind 62 event
+   * @returns true if recorded, false if a newer request already exists
+   */
+  async recordVanishRequest(
+    pubkey: string,
+    createdAt: number,
+  ): Promise<boolean> {
+    const existing = await this.getVanishRequest(pubkey);
+    if (existing && existing.created_at > createdAt) {
+      return false;
+    }
+
+    const request: VanishRequest = {
+      pubkey,
+      created_at: createdAt,
+      status: "pending",
+    };
+    await this.redis.hSet(
+      "relay:vanished:pubkeys",
+      pubkey,
+      JSON.stringify(request),
+    );
+    return true;
+  }
+
+  /**
+   * Mark a request to vanish as completed
+   *
+   * @param pubkey - The pubkey that requested to vanish (hex format)
+   * @param createdAt - The created_at of the processed kind 62 event
+   * @param deleted - The number of deleted events
+   * @returns true if updated, false if a newer request is still pending
+   */
+  async completeVanishRequest(
+    pubkey: string,
+    createdAt: number,
+    deleted: number,
+  ): Promise<boolean> {
+    const existing = await this.getVanishRequest(pubkey);
+    if (existing && existing.created_at > createdAt) {
+      return false;
+    }
+
+    const request: VanishRequest = {
+      pubkey,
+      created_at: createdAt,
+      status: "completed",
+      deleted,
+    };
+    await this.redis.hSet(
+      "relay:vanished:pubkeys",
+      pubkey,
+      JSON.stringify(request),
+    );
+    return true;
+  }
+
+  async getVanishRequest(pubkey: string): Promise<VanishRequest | null> {
+    const request = await this.redis.hGet("relay:vanished:pubkeys", pubkey);
+    return request ? JSON.parse(request) : null;
+  }
+
+  async listVanishedPubkeys(): Promise<VanishRequest[]> {
+    const requests = await this.redis.hGetAll("relay:vanished:pubkeys");
+    return Object.values(requests).map((request) =>
+      JSON.parse(request as string) as VanishRequest
+    );
+  }
+
   // ============================================================================
   // Event Management
   // ============================================================================
@@ -271,20 +375,132 @@ export class RelayManagement {
   }
 
   // ============================================================================
-  // IP Management
+  // Proof of Work (NIP-13)
   // ============================================================================
 
-  async blockIP(ip: string, reason?: string): Promise<boolean> {
+  async setMinPowDifficulty(difficulty: number): Promise<boolean> {
+    await this.redis.set("relay:pow:min", difficulty.toString());
+    return true;
+  }
+
+  async getMinPowDifficulty(): Promise<number> {
+    const difficulty = await this.redis.get("relay:pow:min");
+    return difficulty ? parseInt(difficulty, 10) : 0;
+  }
+
+  async setKindPowDifficulty(
+    kind: number,
+    difficulty: number,
+  ): Promise<boolean> {
     await this.redis.hSet(
-      "relay:blocked:ips",
-      ip,
-      reason || "",
+      "relay:pow:kinds",
+      kind.toString(),
+      difficulty.toString(),
+    );
+    return true;
+  }
+
+  async removeKindPowDifficulty(kind: number): Promise<boolean> {
+    await this.redis.hDel("relay:pow:kinds", kind.toString());
+    return true;
+  }
+
+  async listKindPowDifficulties(): Promise<KindPowDifficulty[]> {
+    const kinds = await this.redis.hGetAll("relay:pow:kinds");
+    return Object.entries(kinds)
+      .map(([kind, difficulty]) => ({
+        kind: parseInt(kind, 10),
+        difficulty: parseInt(difficulty as string, 10),
+      }))
+      .sort((a, b) => a.kind - b.kind);
+  }
+
+  /**
+   * Get the difficulty required for a kind
+   * A per-kind override takes precedence over the global minimum
+   */
+  async getRequiredPowDifficulty(kind: number): Promise<number> {
+    const override = await this.redis.hGet("relay:pow:kinds", kind.toString());
+    if (override !== null && override !== undefined) {
+      return parseInt(override, 10);
+    }
+    return await this.getMinPowDifficulty();
+  }
+
+  // ============================================================================
+  // Rate Limits
+  // ============================================================================
+
+  /**
+   * Set a rate limit rule, overriding its default
+   * A rate of 0 disables the rule
+   */
+  async setRateLimit(rule: string, limit: RateLimit): Promise<boolean> {
+    await this.redis.hSet(
+      "relay:ratelimits",
+      rule,
+      JSON.stringify({ rate: limit.rate, burst: limit.burst }),
     );
     return true;
   }
 
+  /**
+   * Remove a rate limit rule, restoring its default if it has one
+   */
+  async removeRateLimit(rule: string): Promise<boolean> {
+    await this.redis.hDel("relay:ratelimits", rule);
+    return true;
+  }
+
+  /**
+   * Get the rate limit rules in effect, with defaults applied
+   */
+  async getRateLimits(): Promise<Record<string, RateLimit>> {
+    const overrides = await this.redis.hGetAll("relay:ratelimits");
+    const rules = { ...DEFAULT_RATE_LIMITS };
+    for (const [rule, limit] of Object.entries(overrides)) {
+      rules[rule] = JSON.parse(limit as string);
+    }
+    return rules;
+  }
+
+  async listRateLimits(): Promise<RateLimitRule[]> {
+    const rules = await this.getRateLimits();
+    return Object.entries(rules)
+      .map(([rule, limit]) => ({ rule, ...limit }))
+      .sort((a, b) => a.rule.localeCompare(b.rule));
+  }
+
+  // ============================================================================
+  // IP Management
+  // ============================================================================
+
+  /**
+   * Block an IP address or CIDR range
+   * Addresses are also kept in a set of canonical addresses for exact lookups,
+   * and ranges in a set of ranges.
+   */
+  async blockIP(ip: string, reason?: string): Promise<boolean> {
+    const address = canonicalIP(ip);
+    const pipeline = this.redis.multi();
+    pipeline.hSet("relay:blocked:ips", ip, reason || "");
+    if (address) {
+      pipeline.sAdd("relay:blocked:ips:addresses", address);
+    } else {
+      pipeline.sAdd("relay:blocked:ips:ranges", ip);
+    }
+    await pipeline.exec();
+    this.blockedRanges = undefined;
+    return true;
+  }
+
   async unblockIP(ip: string): Promise<boolean> {
-    await this.redis.hDel("relay:blocked:ips", ip);
+    const pipeline = this.redis.multi();
+    pipeline.hDel("relay:blocked:ips", ip);
+    pipeline.sRem("relay:blocked:ips:addresses", canonicalIP(ip) ?? ip);
+    pipeline.sRem("relay:blocked:ips:ranges", ip);
+    await pipeline.exec();
+    this.blockedRanges = undefined;
     return true;
   }
 
@@ -296,11 +512,59 @@ export class RelayManagement {
     }));
   }
 
+  /**
+   * Rebuild the sets of blocked addresses and ranges from the blocked IPs
+   * Blocks recorded before the sets existed are only in the hash.
+   */
+  async indexBlockedIPs(): Promise<void> {
+    const blocked = await this.redis.hKeys("relay:blocked:ips");
+    const addresses = blocked.flatMap((ip) => canonicalIP(ip) ?? []);
+    const ranges = blocked.filter((ip) => canonicalIP(ip) === undefined);
+
+    const pipeline = this.redis.multi();
+    pipeline.del(["relay:blocked:ips:addresses", "relay:blocked:ips:ranges"]);
+    if (addresses.length > 0) {
+      pipeline.sAdd("relay:blocked:ips:addresses", addresses);
+    }
+    if (ranges.length > 0) {
+      pipeline.sAdd("relay:blocked:ips:ranges", ranges);
+    }
+    await pipeline.exec();
+    this.blockedRanges = undefined;
+  }
+
+  /**
+   * Check whether an IP address is blocked, either directly or by a CIDR range
+   */
   async isIPBlocked(ip: string): Promise<boolean> {
-    const result = await this.redis.hExists("relay:blocked:ips", ip);
+    if (matchesAnyCidr(ip, await this.getBlockedRanges())) {
+      return true;
+    }
+
+    const address = canonicalIP(ip);
+    if (!address) {
+      return false;
+    }
+    const result = await this.redis.sIsMember(
+      "relay:blocked:ips:addresses",
+      address,
+    );
     return result === 1;
   }
 
+  private async getBlockedRanges(): Promise<string[]> {
+    if (
+      !this.blockedRanges ||
+      Date.now() - this.blockedRangesLoadedAt > this.blockedRangesTtlMs
+    ) {
+      this.blockedRanges = await this.redis.sMembers(
+        "relay:blocked:ips:ranges",
+      );
+      this.blockedRangesLoadedAt = Date.now();
+    }
+    return this.blockedRanges;
+  }
+
   // ============================================================================
   // Relay Metadata
   // ============================================================================
@@ -346,12 +610,23 @@ export class RelayManagement {
       "listbannedpubkeys",
       "allowpubkey",
       "listallowedpubkeys",
+      "listvanishedpubkeys",
       "banevent",
       "allowevent",
       "listbannedevents",
+      "listdeadletterevents",
+      "retrydeadletterevent",
+      "discarddeadletterevent",
       "allowkind",
       "disallowkind",
       "listallowedkinds",
+      "setminpowdifficulty",
+      "setkindpowdifficulty",
+      "removekindpowdifficulty",
+      "listpowdifficulties",
+      "setratelimit",
+      "removeratelimit",
+      "listratelimits",
       "blockip",
       "unblockip",
       "listblockedips",
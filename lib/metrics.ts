@@ -11,7 +11,11 @@ const METRICS_KEYS = {
   events_failed: "nostr:metrics:events_failed",
   events_invalid: "nostr:metrics:events_invalid",
   events_rejected: "nostr:metrics:events_rejected",
+  events_duplicate: "nostr:metrics:events_duplicate",
   events_broadcast: "nostr:metrics:events_broadcast",
+  durable_acks: "nostr:metrics:durable_acks",
+  durable_ack_wait_ms: "nostr:metrics:durable_ack_wait_ms",
+  durable_ack_timeouts: "nostr:metrics:durable_ack_timeouts",
   queries_total: "nostr:metrics:queries_total",
   subscriptions_active: "nostr:metrics:subscriptions_active",
   events_by_kind: "nostr:metrics:events_by_kind",
@@ -20,6 +24,7 @@ const METRICS_KEYS = {
   websocket_errors: "nostr:metrics:websocket_errors",
   messages_sent: "nostr:metrics:messages_sent",
   messages_received: "nostr:metrics:messages_received",
+  connections_overloaded: "nostr:metrics:connections_overloaded",
   response_poller_invocations: "nostr:metrics:response_poller_invocations",
 } as const;
 
@@ -77,12 +82,36 @@ const eventsRejectedCounter = new Counter({
   registers: [register],
 });
 
+const eventsDuplicateCounter = new Counter({
+  name: "nostr_events_duplicate",
+  help: "Total events already received before",
+  registers: [register],
+});
+
 const eventsBroadcastCounter = new Counter({
   name: "nostr_events_broadcast",
   help: "Total events broadcast to subscribers",
   registers: [register],
 });
 
+const durableAcksCounter = new Counter({
+  name: "nostr_durable_acks_total",
+  help: "Total events that waited for storage before their OK",
+  registers: [register],
+});
+
+const durableAckWaitCounter = new Counter({
+  name: "nostr_durable_ack_wait_milliseconds_total",
+  help: "Total milliseconds events waited for storage before their OK",
+  registers: [register],
+});
+
+const durableAckTimeoutsCounter = new Counter({
+  name: "nostr_durable_ack_timeouts_total",
+  help: "Total events not confirmed by storage before the timeout",
+  registers: [register],
+});
+
 const queriesTotalCounter = new Counter({
   name: "nostr_queries_total",
   help: "Total queries processed",
@@ -119,6 +148,12 @@ const messagesReceivedCounter = new Counter({
   registers: [register],
 });
 
+const connectionsOverloadedCounter = new Counter({
+  name: "nostr_connections_overloaded_total",
+  help: "Total connections closed because their message backlog was full",
+  registers: [register],
+});
+
 const responsePollerInvocationsCounter = new Counter({
   name: "nostr_response_poller_invocations_total",
   help: "Total response poller invocations",
@@ -168,10 +203,26 @@ export class RedisMetrics {
     await this.redis.incrBy(METRICS_KEYS.events_rejected, delta);
   }
 
+  async incrementEventsDuplicate(delta: number = 1): Promise<void> {
+    await this.redis.incrBy(METRICS_KEYS.events_duplicate, delta);
+  }
+
   async incrementEventsBroadcast(delta: number = 1): Promise<void> {
     await this.redis.incrBy(METRICS_KEYS.events_broadcast, delta);
   }
 
+  async incrementDurableAcks(delta: number = 1): Promise<void> {
+    await this.redis.incrBy(METRICS_KEYS.durable_acks, delta);
+  }
+
+  async incrementDurableAckWaitMs(delta: number): Promise<void> {
+    await this.redis.incrBy(METRICS_KEYS.durable_ack_wait_ms, delta);
+  }
+
+  async incrementDurableAckTimeouts(delta: number = 1): Promise<void> {
+    await this.redis.incrBy(METRICS_KEYS.durable_ack_timeouts, delta);
+  }
+
   async incrementWebSocketOpens(delta: number = 1): Promise<void> {
     await this.redis.incrBy(METRICS_KEYS.websocket_opens, delta);
   }
@@ -192,6 +243,10 @@ export class RedisMetrics {
     await this.redis.incrBy(METRICS_KEYS.messages_received, delta);
   }
 
+  async incrementConnectionsOverloaded(delta: number = 1): Promise<void> {
+    await this.redis.incrBy(METRICS_KEYS.connections_overloaded, delta);
+  }
+
   async incrementResponsePollerInvocations(delta: number = 1): Promise<void> {
     await this.redis.incrBy(METRICS_KEYS.response_poller_invocations, delta);
   }
@@ -239,11 +294,31 @@ export class RedisMetrics {
     return value ? parseInt(value, 10) : 0;
   }
 
+  async getEventsDuplicate(): Promise<number> {
+    const value = await this.redis.get(METRICS_KEYS.events_duplicate);
+    return value ? parseInt(value, 10) : 0;
+  }
+
   async getEventsBroadcast(): Promise<number> {
     const value = await this.redis.get(METRICS_KEYS.events_broadcast);
     return value ? parseInt(value, 10) : 0;
   }
 
+  async getDurableAcks(): Promise<number> {
+    const value = await this.redis.get(METRICS_KEYS.durable_acks);
+    return value ? parseInt(value, 10) : 0;
+  }
+
+  async getDurableAckWaitMs(): Promise<number> {
+    const value = await this.redis.get(METRICS_KEYS.durable_ack_wait_ms);
+    return value ? parseInt(value, 10) : 0;
+  }
+
+  async getDurableAckTimeouts(): Promise<number> {
+    const value = await this.redis.get(METRICS_KEYS.durable_ack_timeouts);
+    return value ? parseInt(value, 10) : 0;
+  }
+
   async getWebSocketOpens(): Promise<number> {
     const value = await this.redis.get(METRICS_KEYS.websocket_opens);
     return value ? parseInt(value, 10) : 0;
@@ -269,6 +344,11 @@ export class RedisMetrics {
     return value ? parseInt(value, 10) : 0;
   }
 
+  async getConnectionsOverloaded(): Promise<number> {
+    const value = await this.redis.get(METRICS_KEYS.connections_overloaded);
+    return value ? parseInt(value, 10) : 0;
+  }
+
   async getResponsePollerInvocations(): Promise<number> {
     const value = await this.redis.get(
       METRICS_KEYS.response_poller_invocations,
@@ -395,11 +475,31 @@ export async function getMetrics(): Promise<string> {
     "events_rejected",
     allMetrics.events_rejected,
   );
+  incrementCounter(
+    eventsDuplicateCounter,
+    "events_duplicate",
+    allMetrics.events_duplicate || 0,
+  );
   incrementCounter(
     eventsBroadcastCounter,
     "events_broadcast",
     allMetrics.events_broadcast || 0,
   );
+  incrementCounter(
+    durableAcksCounter,
+    "durable_acks",
+    allMetrics.durable_acks || 0,
+  );
+  incrementCounter(
+    durableAckWaitCounter,
+    "durable_ack_wait_ms",
+    allMetrics.durable_ack_wait_ms || 0,
+  );
+  incrementCounter(
+    durableAckTimeoutsCounter,
+    "durable_ack_timeouts",
+    allMetrics.durable_ack_timeouts || 0,
+  );
   incrementCounter(
     queriesTotalCounter,
     "queries_total",
@@ -430,6 +530,11 @@ export async function getMetrics(): Promise<string> {
     "messages_received",
     allMetrics.messages_received || 0,
   );
+  incrementCounter(
+    connectionsOverloadedCounter,
+    "connections_overloaded",
+    allMetrics.connections_overloaded || 0,
+  );
   incrementCounter(
     responsePollerInvocationsCounter,
     "response_poller_invocations",
@@ -0,0 +1,115 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { createClient as createRedisClient, type RedisClientType } from "redis";
+import {
+  encodeVarInt,
+  type NegentropyItem,
+  NegentropySessions,
+  parseNegClientMsg,
+  reconcile,
+} from "./negentropy.ts";
+
+// Helper to create a fresh Redis connection and sessions instance
+async function setup() {
+  const redis: RedisClientType = createRedisClient({
+    url: Deno.env.get("REDIS_URL") || "redis://localhost:6379",
+  });
+  await redis.connect();
+  const sessions = new NegentropySessions(redis);
+  return { redis, sessions };
+}
+
+// Helper to create items with sequential IDs
+function createItems(count: number): NegentropyItem[] {
+  return Array.from({ length: count }, (_, i) => ({
+    created_at: 1700000000 + i,
+    id: i.toString(16).padStart(64, "0"),
+  }));
+}
+
+// Initial message of a client with no events: an empty IdList up to infinity
+const EMPTY_CLIENT_MESSAGE = "6100000200";
+
+Deno.test("encodeVarInt - base-128 with continuation bits", () => {
+  assertEquals(encodeVarInt(0), [0x00]);
+  assertEquals(encodeVarInt(127), [0x7f]);
+  assertEquals(encodeVarInt(128), [0x81, 0x00]);
+  assertEquals(encodeVarInt(16384), [0x81, 0x80, 0x00]);
+});
+
+Deno.test("parseNegClientMsg - valid and invalid messages", () => {
+  assertEquals(
+    parseNegClientMsg(["NEG-OPEN", "sub1", { kinds: [1] }, "6100000200"]),
+    ["NEG-OPEN", "sub1", { kinds: [1] }, "6100000200"],
+  );
+  assertEquals(parseNegClientMsg(["NEG-MSG", "sub1", "61"]), [
+    "NEG-MSG",
+    "sub1",
+    "61",
+  ]);
+  assertEquals(parseNegClientMsg(["NEG-CLOSE", "sub1"]), ["NEG-CLOSE", "sub1"]);
+
+  // Not hex
+  assertEquals(parseNegClientMsg(["NEG-MSG", "sub1", "xyz"]), undefined);
+  // Missing message
+  assertEquals(parseNegClientMsg(["NEG-OPEN", "sub1", {}]), undefined);
+  // Other messages
+  assertEquals(parseNegClientMsg(["REQ", "sub1", {}]), undefined);
+});
+
+Deno.test("reconcile - lists our IDs to a client with no events", async () => {
+  const items = createItems(3);
+
+  const reply = await reconcile(items, EMPTY_CLIENT_MESSAGE);
+
+  assertEquals(reply, "6100000203" + items.map((item) => item.id).join(""));
+});
+
+Deno.test("reconcile - empty relay replies with empty IdList", async () => {
+  assertEquals(await reconcile([], EMPTY_CLIENT_MESSAGE), "6100000200");
+});
+
+Deno.test("reconcile - splits large mismatched ranges into buckets", async () => {
+  // Fingerprint of an empty set never matches 100 events
+  const emptyFingerprint = "61000001" + "00".repeat(16);
+
+  const reply = await reconcile(createItems(100), emptyFingerprint);
+
+  // Version byte followed by 16 fingerprint ranges
+  assertEquals(reply.startsWith("61"), true);
+  assertEquals(reply.length > 2 + 16 * 2 * 18, true);
+});
+
+Deno.test("reconcile - unsupported version replies with ours", async () => {
+  assertEquals(await reconcile(createItems(3), "62"), "61");
+});
+
+Deno.test("reconcile - rejects malformed messages", async () => {
+  await assertRejects(() => reconcile(createItems(3), "10"));
+  await assertRejects(() => reconcile(createItems(3), "610000"));
+});
+
+Deno.test("NegentropySessions - open, get and close", async () => {
+  const { redis, sessions } = await setup();
+
+  const connId = "test-conn-neg";
+  const items = createItems(5);
+
+  try {
+    await sessions.open(connId, "sub1", items);
+    await sessions.open(connId, "sub2", []);
+
+    assertEquals(await sessions.get(connId, "sub1"), items);
+    assertEquals(await sessions.get(connId, "sub2"), []);
+    assertEquals(await sessions.get(connId, "sub3"), undefined);
+
+    await sessions.close(connId, "sub1");
+    assertEquals(await sessions.get(connId, "sub1"), undefined);
+
+    await sessions.closeAll(connId);
+    assertEquals(await sessions.get(connId, "sub2"), undefined);
+    assertEquals(await redis.exists(`neg:conn:${connId}`), 0);
+  } finally {
+    await sessions.closeAll(connId);
+    await redis.quit();
+  }
+});
@@ -0,0 +1,504 @@
+/**
+ * NIP-77 Negentropy Syncing
+ *
+ * Implements the responder side of the negentropy (protocol version 1) set
+ * reconciliation protocol. Clients open a session with a filter and an initial
+ * message, and the relay answers each message by comparing fingerprints of
+ * ranges of its `(created_at, id)` items.
+ *
+ * Responding is stateless apart from the item set, so the items matched when
+ * the session was opened are stored in Redis and any relay worker can answer
+ * the next message.
+ *
+ * Redis Keys:
+ * - `neg:{connId}:{subId}` - Sorted `created_at:id` items of a session (string)
+ * - `neg:conn:{connId}` - Set of session IDs for a connection
+ */
+
+import type { RedisClientType } from "redis";
+import { NSchema as n } from "@nostrify/nostrify";
+import type { NostrFilter } from "@nostrify/nostrify";
+
+const PROTOCOL_VERSION = 0x61;
+const ID_SIZE = 32;
+const FINGERPRINT_SIZE = 16;
+const BUCKETS = 16;
+
+// Timestamp used for the upper bound of the last range
+const MAX_TIMESTAMP = Number.MAX_SAFE_INTEGER;
+
+// Sessions expire if the client stops sending messages
+const SESSION_TTL_SECONDS = 300;
+
+enum Mode {
+  Skip = 0,
+  Fingerprint = 1,
+  IdList = 2,
+}
+
+export interface NegentropyItem {
+  created_at: number;
+  id: string;
+}
+
+interface StorageItem {
+  timestamp: number;
+  id: Uint8Array;
+}
+
+interface Bound {
+  timestamp: number;
+  id: Uint8Array;
+}
+
+/** NIP-77 messages from client to relay */
+export type NegClientMsg =
+  | ["NEG-OPEN", string, NostrFilter, string]
+  | ["NEG-MSG", string, string]
+  | ["NEG-CLOSE", string];
+
+/** NIP-77 messages from relay to client */
+export type NegRelayMsg =
+  | ["NEG-MSG", string, string]
+  | ["NEG-ERR", string, string];
+
+/**
+ * Parse a NIP-77 client message
+ * Returns undefined if the message is not a valid NEG-* message
+ */
+export function parseNegClientMsg(msg: unknown): NegClientMsg | undefined {
+  if (!Array.isArray(msg) || typeof msg[1] !== "string") {
+    return undefined;
+  }
+
+  switch (msg[0]) {
+    case "NEG-OPEN": {
+      const filter = n.filter().safeParse(msg[2]);
+      if (msg.length !== 4 || !filter.success || !isHex(msg[3])) {
+        return undefined;
+      }
+      return ["NEG-OPEN", msg[1], filter.data as NostrFilter, msg[3]];
+    }
+    case "NEG-MSG":
+      if (msg.length !== 3 || !isHex(msg[2])) return undefined;
+      return ["NEG-MSG", msg[1], msg[2]];
+    case "NEG-CLOSE":
+      if (msg.length !== 2) return undefined;
+      return ["NEG-CLOSE", msg[1]];
+    default:
+      return undefined;
+  }
+}
+
+function isHex(value: unknown): value is string {
+  return typeof value === "string" && value.length % 2 === 0 &&
+    /^[0-9a-f]*$/i.test(value);
+}
+
+export function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substring(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+export function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+export function encodeVarInt(value: number): number[] {
+  if (value === 0) return [0];
+
+  const out: number[] = [];
+  while (value > 0) {
+    out.push(value % 128);
+    value = Math.floor(value / 128);
+  }
+  out.reverse();
+
+  for (let i = 0; i < out.length - 1; i++) {
+    out[i] |= 0x80;
+  }
+  return out;
+}
+
+/**
+ * Cursor over an incoming message
+ */
+class Reader {
+  private offset = 0;
+
+  constructor(private buf: Uint8Array) {}
+
+  get done(): boolean {
+    return this.offset >= this.buf.length;
+  }
+
+  byte(): number {
+    if (this.done) throw new Error("parse ends prematurely");
+    return this.buf[this.offset++];
+  }
+
+  bytes(length: number): Uint8Array {
+    if (this.offset + length > this.buf.length) {
+      throw new Error("parse ends prematurely");
+    }
+    const out = this.buf.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return out;
+  }
+
+  varInt(): number {
+    let value = 0;
+    while (true) {
+      const byte = this.byte();
+      value = value * 128 + (byte & 0x7f);
+      if ((byte & 0x80) === 0) return value;
+    }
+  }
+}
+
+function compareBytes(a: Uint8Array, b: Uint8Array): number {
+  for (let i = 0; i < a.length && i < b.length; i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return a.length - b.length;
+}
+
+function compareBound(a: Bound, b: Bound): number {
+  if (a.timestamp !== b.timestamp) return a.timestamp - b.timestamp;
+  return compareBytes(a.id, b.id);
+}
+
+// ============================================================================
+// Fingerprints
+// ============================================================================
+
+/**
+ * Fingerprint of a range of items
+ * SHA-256 of the sum of the IDs (as 256-bit little-endian integers) followed
+ * by the varint encoded item count, truncated to 16 bytes
+ */
+async function fingerprint(
+  items: StorageItem[],
+  begin: number,
+  end: number,
+): Promise<Uint8Array> {
+  const sum = new Uint8Array(ID_SIZE);
+  const sumView = new DataView(sum.buffer);
+
+  for (let i = begin; i < end; i++) {
+    const id = items[i].id;
+    const idView = new DataView(id.buffer, id.byteOffset, ID_SIZE);
+    let carry = 0;
+    for (let offset = 0; offset < ID_SIZE; offset += 4) {
+      const next = sumView.getUint32(offset, true) +
+        idView.getUint32(offset, true) + carry;
+      sumView.setUint32(offset, next >>> 0, true);
+      carry = next > 0xffffffff ? 1 : 0;
+    }
+  }
+
+  const input = new Uint8Array([...sum, ...encodeVarInt(end - begin)]);
+  const hash = await crypto.subtle.digest("SHA-256", input);
+  return new Uint8Array(hash).subarray(0, FINGERPRINT_SIZE);
+}
+
+// ============================================================================
+// Reconciliation
+// ============================================================================
+
+/**
+ * Responder state for a single negentropy message
+ * Timestamps are delta-encoded within a message, so the codec is per message
+ */
+class Reconciler {
+  private lastTimestampIn = 0;
+  private lastTimestampOut = 0;
+
+  constructor(private items: StorageItem[]) {}
+
+  async reconcile(query: Uint8Array): Promise<Uint8Array> {
+    const reader = new Reader(query);
+    const output: number[] = [PROTOCOL_VERSION];
+
+    const version = reader.byte();
+    if (version < 0x60 || version > 0x6f) {
+      throw new Error("invalid negentropy protocol version byte");
+    }
+    if (version !== PROTOCOL_VERSION) {
+      // Reply with our version so the client can downgrade
+      return new Uint8Array(output);
+    }
+
+    let prevBound: Bound = { timestamp: 0, id: new Uint8Array() };
+    let prevIndex = 0;
+    let skip = false;
+
+    while (!reader.done) {
+      const out: number[] = [];
+      const flushSkip = () => {
+        if (skip) {
+          skip = false;
+          out.push(...this.encodeBound(prevBound), ...encodeVarInt(Mode.Skip));
+        }
+      };
+
+      const currBound = this.decodeBound(reader);
+      const mode = reader.varInt();
+
+      const lower = prevIndex;
+      const upper = this.findLowerBound(prevIndex, currBound);
+
+      if (mode === Mode.Skip) {
+        skip = true;
+      } else if (mode === Mode.Fingerprint) {
+        const theirs = reader.bytes(FINGERPRINT_SIZE);
+        const ours = await fingerprint(this.items, lower, upper);
+
+        if (compareBytes(theirs, ours) !== 0) {
+          flushSkip();
+          await this.splitRange(lower, upper, currBound, out);
+        } else {
+          skip = true;
+        }
+      } else if (mode === Mode.IdList) {
+        // Reply with our IDs so the client can compute both differences
+        const count = reader.varInt();
+        reader.bytes(count * ID_SIZE);
+
+        flushSkip();
+        out.push(
+          ...this.encodeBound(currBound),
+          ...encodeVarInt(Mode.IdList),
+          ...encodeVarInt(upper - lower),
+        );
+        for (let i = lower; i < upper; i++) {
+          out.push(...this.items[i].id);
+        }
+      } else {
+        throw new Error("unexpected mode");
+      }
+
+      output.push(...out);
+      prevIndex = upper;
+      prevBound = currBound;
+    }
+
+    return new Uint8Array(output);
+  }
+
+  /**
+   * Split a mismatched range into fingerprinted buckets, or list its IDs if small
+   */
+  private async splitRange(
+    lower: number,
+    upper: number,
+    upperBound: Bound,
+    out: number[],
+  ): Promise<void> {
+    const count = upper - lower;
+
+    if (count < BUCKETS * 2) {
+      out.push(
+        ...this.encodeBound(upperBound),
+        ...encodeVarInt(Mode.IdList),
+        ...encodeVarInt(count),
+      );
+      for (let i = lower; i < upper; i++) {
+        out.push(...this.items[i].id);
+      }
+      return;
+    }
+
+    const itemsPerBucket = Math.floor(count / BUCKETS);
+    const bucketsWithExtra = count % BUCKETS;
+    let curr = lower;
+
+    for (let i = 0; i < BUCKETS; i++) {
+      const bucketSize = itemsPerBucket + (i < bucketsWithExtra ? 1 : 0);
+      const ours = await fingerprint(this.items, curr, curr + bucketSize);
+      curr += bucketSize;
+
+      const nextBound = curr === upper
+        ? upperBound
+        : this.getMinimalBound(this.items[curr - 1], this.items[curr]);
+
+      out.push(
+        ...this.encodeBound(nextBound),
+        ...encodeVarInt(Mode.Fingerprint),
+        ...ours,
+      );
+    }
+  }
+
+  /**
+   * Shortest bound that separates two adjacent items
+   */
+  private getMinimalBound(prev: StorageItem, curr: StorageItem): Bound {
+    if (curr.timestamp !== prev.timestamp) {
+      return { timestamp: curr.timestamp, id: new Uint8Array() };
+    }
+
+    let sharedPrefix = 0;
+    while (
+      sharedPrefix < ID_SIZE && curr.id[sharedPrefix] === prev.id[sharedPrefix]
+    ) {
+      sharedPrefix++;
+    }
+    return {
+      timestamp: curr.timestamp,
+      id: curr.id.subarray(0, sharedPrefix + 1),
+    };
+  }
+
+  /**
+   * Index of the first item at or after the bound
+   */
+  private findLowerBound(begin: number, bound: Bound): number {
+    let low = begin;
+    let high = this.items.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (compareBound(this.items[mid], bound) < 0) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return low;
+  }
+
+  private decodeBound(reader: Reader): Bound {
+    const timestamp = this.decodeTimestamp(reader);
+    const length = reader.varInt();
+    if (length > ID_SIZE) throw new Error("bound key too long");
+    return { timestamp, id: reader.bytes(length) };
+  }
+
+  private decodeTimestamp(reader: Reader): number {
+    const encoded = reader.varInt();
+    const delta = encoded === 0 ? MAX_TIMESTAMP : encoded - 1;
+
+    if (this.lastTimestampIn === MAX_TIMESTAMP || delta === MAX_TIMESTAMP) {
+      this.lastTimestampIn = MAX_TIMESTAMP;
+      return MAX_TIMESTAMP;
+    }
+
+    this.lastTimestampIn += delta;
+    return this.lastTimestampIn;
+  }
+
+  private encodeBound(bound: Bound): number[] {
+    return [
+      ...this.encodeTimestamp(bound.timestamp),
+      ...encodeVarInt(bound.id.length),
+      ...bound.id,
+    ];
+  }
+
+  private encodeTimestamp(timestamp: number): number[] {
+    if (timestamp === MAX_TIMESTAMP) {
+      this.lastTimestampOut = MAX_TIMESTAMP;
+      return encodeVarInt(0);
+    }
+
+    const delta = timestamp - this.lastTimestampOut;
+    this.lastTimestampOut = timestamp;
+    return encodeVarInt(delta + 1);
+  }
+}
+
+/**
+ * Answer a negentropy message from a client
+ * @param items The relay's items matching the session filter
+ * @param message The client's message (hex)
+ * @returns The relay's reply (hex)
+ * @throws Error if the message is malformed
+ */
+export async function reconcile(
+  items: NegentropyItem[],
+  message: string,
+): Promise<string> {
+  const storage: StorageItem[] = items
+    .map((item) => ({ timestamp: item.created_at, id: hexToBytes(item.id) }))
+    .sort(compareBound);
+
+  const reply = await new Reconciler(storage).reconcile(hexToBytes(message));
+  return bytesToHex(reply);
+}
+
+// ============================================================================
+// Sessions
+// ============================================================================
+
+/**
+ * Per-connection negentropy sessions stored in Redis
+ */
+export class NegentropySessions {
+  constructor(private redis: RedisClientType) {}
+
+  /**
+   * Open (or replace) a session with the items matching its filter
+   */
+  async open(
+    connId: string,
+    subId: string,
+    items: NegentropyItem[],
+  ): Promise<void> {
+    const key = `neg:${connId}:${subId}`;
+    const value = items.map((item) => `${item.created_at}:${item.id}`).join(
+      ",",
+    );
+
+    const pipeline = this.redis.multi();
+    pipeline.set(key, value, { EX: SESSION_TTL_SECONDS });
+    pipeline.sAdd(`neg:conn:${connId}`, subId);
+    pipeline.expire(`neg:conn:${connId}`, SESSION_TTL_SECONDS);
+    await pipeline.exec();
+  }
+
+  /**
+   * Get the items of a session and extend its TTL
+   * Returns undefined if the session doesn't exist
+   */
+  async get(
+    connId: string,
+    subId: string,
+  ): Promise<NegentropyItem[] | undefined> {
+    const key = `neg:${connId}:${subId}`;
+    const value = await this.redis.get(key);
+    if (value === null) {
+      return undefined;
+    }
+
+    await this.redis.expire(key, SESSION_TTL_SECONDS);
+
+    if (value === "") {
+      return [];
+    }
+    return value.split(",").map((item) => {
+      const [createdAt, id] = item.split(":");
+      return { created_at: parseInt(createdAt, 10), id };
+    });
+  }
+
+  async close(connId: string, subId: string): Promise<void> {
+    await this.redis.del(`neg:${connId}:${subId}`);
+    await this.redis.sRem(`neg:conn:${connId}`, subId);
+  }
+
+  /**
+   * Close all sessions of a connection
+   */
+  async closeAll(connId: string): Promise<void> {
+    const subIds = await this.redis.sMembers(`neg:conn:${connId}`);
+    const keys = subIds.map((subId) => `neg:${connId}:${subId}`);
+    await this.redis.del([...keys, `neg:conn:${connId}`]);
+  }
+}
@@ -135,7 +135,7 @@ Deno.test({
       genEvent({ kind: 1, content: "Event 3" }),
     ];
 
-    await relay.eventBatch(events);
+    assertEquals(await relay.eventBatch(events), []);
 
     // Wait for index refresh
     await relay.refresh(); // Force refresh for testing
@@ -147,6 +147,35 @@ Deno.test({
   },
 });
 
+Deno.test({
+  name: "OpenSearchRelay - eventBatch() returns events rejected by the index",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn() {
+    await using relay = await setupRelay();
+
+    const valid = genEvent({ kind: 1, content: "Valid" });
+    // Conflicts with the long mapping of created_at
+    const invalid = {
+      ...genEvent({ kind: 1, content: "Invalid" }),
+      created_at: "not a number" as unknown as number,
+    };
+
+    const failures = await relay.eventBatch([valid, invalid]);
+    await relay.refresh(); // Force refresh for testing
+
+    assertEquals(failures.length, 1);
+    assertEquals(failures[0].event.id, invalid.id);
+    assertEquals(
+      failures[0].reason.startsWith("mapper_parsing_exception"),
+      true,
+    );
+
+    const events = await relay.query([{ ids: [valid.id, invalid.id] }]);
+    assertEquals(events.map((e) => e.id), [valid.id]);
+  },
+});
+
 Deno.test({
   name: "OpenSearchRelay - query by ids",
   sanitizeResources: false,
@@ -455,6 +484,42 @@ Deno.test({
   },
 });
 
+Deno.test({
+  name:
+    "OpenSearchRelay - query merges filters newest first without duplicates",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn() {
+    await using relay = await setupRelay();
+
+    const sk = generateSecretKey();
+    const pubkey = getPublicKey(sk);
+    const now = Math.floor(Date.now() / 1000);
+
+    const events = Array.from(
+      { length: 4 },
+      (_, i) =>
+        genEvent({ kind: i % 2 === 0 ? 1 : 7, created_at: now - i }, sk),
+    );
+
+    await relay.eventBatch(events);
+    await relay.refresh(); // Force refresh for testing
+
+    // The last filter's only event is also matched by the second filter
+    const results = await relay.query([
+      { kinds: [7] },
+      { authors: [pubkey], kinds: [1] },
+      { authors: [pubkey], limit: 1 },
+    ]);
+
+    assertEquals(
+      results.map((event) => event.id),
+      events.map((event) => event.id),
+      "Should return each event once, newest first",
+    );
+  },
+});
+
 Deno.test({
   name: "OpenSearchRelay - count() returns event count",
   sanitizeResources: false,
@@ -477,6 +542,28 @@ Deno.test({
   },
 });
 
+Deno.test({
+  name: "OpenSearchRelay - count() leaves out excluded kinds",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn() {
+    await using relay = await setupRelay();
+
+    const recipient = getPublicKey(generateSecretKey());
+    await relay.eventBatch([
+      genEvent({ kind: 1, tags: [["p", recipient]] }),
+      genEvent({ kind: 4, tags: [["p", recipient]] }),
+    ]);
+    await relay.refresh(); // Force refresh for testing
+
+    const result = await relay.count([{ "#p": [recipient] }], {
+      excludeKinds: [4, 1059],
+    });
+
+    assertEquals(result.count, 1, "Should only count the kind 1 event");
+  },
+});
+
 Deno.test({
   name: "OpenSearchRelay - req() streams events",
   sanitizeResources: false,
@@ -731,6 +818,37 @@ Deno.test({
   },
 });
 
+Deno.test({
+  name: "OpenSearchRelay - getStoredVersion() returns the latest version",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn() {
+    await using relay = await setupRelay();
+
+    const sk = generateSecretKey();
+    const pubkey = getPublicKey(sk);
+
+    const article = genEvent({
+      kind: 30023,
+      tags: [["d", "my-article"]],
+      created_at: Math.floor(Date.now() / 1000),
+    }, sk);
+
+    assertEquals(
+      await relay.getStoredVersion(`30023:${pubkey}:my-article`),
+      null,
+    );
+
+    await relay.event(article);
+
+    assertEquals(await relay.getStoredVersion(`30023:${pubkey}:my-article`), {
+      id: article.id,
+      created_at: article.created_at,
+    });
+    assertEquals(await relay.getStoredVersion(`30023:${pubkey}:other`), null);
+  },
+});
+
 Deno.test({
   name: "OpenSearchRelay - addressable events (kind 30000+) with d tag",
   sanitizeResources: false,
@@ -1691,3 +1809,225 @@ Deno.test({
     assertEquals(events[0].id, event2.id, "Should be event2");
   },
 });
+
+Deno.test({
+  name: "OpenSearchRelay - expired events are not returned (NIP-40)",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn() {
+    await using relay = await setupRelay();
+
+    const now = Math.floor(Date.now() / 1000);
+
+    const expired = genEvent({
+      kind: 1,
+      content: "Expired",
+      tags: [["expiration", (now - 60).toString()]],
+    });
+    const notExpired = genEvent({
+      kind: 1,
+      content: "Not expired yet",
+      tags: [["expiration", (now + 3600).toString()]],
+    });
+    const noExpiration = genEvent({ kind: 1, content: "Forever" });
+
+    await relay.eventBatch([expired, notExpired, noExpiration]);
+    await relay.refresh(); // Force refresh for testing
+
+    const events = await relay.query([{ kinds: [1] }]);
+    const eventIds = events.map((e) => e.id).sort();
+    assertEquals(eventIds, [notExpired.id, noExpiration.id].sort());
+
+    const count = await relay.count([{ kinds: [1] }]);
+    assertEquals(count.count, 2, "Expired events should not be counted");
+  },
+});
+
+Deno.test({
+  name: "OpenSearchRelay - purgeExpired() deletes expired events (NIP-40)",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn() {
+    await using relay = await setupRelay();
+
+    const now = Math.floor(Date.now() / 1000);
+
+    const expired = genEvent({
+      kind: 1,
+      content: "Expired",
+      tags: [["expiration", (now - 60).toString()]],
+    });
+    const notExpired = genEvent({
+      kind: 1,
+      content: "Not expired yet",
+      tags: [["expiration", (now + 3600).toString()]],
+    });
+
+    await relay.eventBatch([expired, notExpired]);
+    await relay.refresh(); // Force refresh for testing
+
+    const deleted = await relay.purgeExpired();
+    assertEquals(deleted, 1, "Should purge only the expired event");
+    await relay.refresh(); // Force refresh for testing
+
+    // The expired document is gone from the index entirely
+    const response = await relay.opensearchClient.count({
+      index: relay.testIndexName,
+    });
+    assertEquals(response.body.count, 1, "Only one document should remain");
+  },
+});
+
+Deno.test({
+  name:
+    "OpenSearchRelay - migrate backfills expiration of existing events (NIP-40)",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn() {
+    await using relay = await setupRelay();
+
+    const now = Math.floor(Date.now() / 1000);
+    const expired = genEvent({
+      kind: 1,
+      content: "Expired before the expiration field existed",
+      tags: [["expiration", (now - 60).toString()]],
+    });
+
+    // Stored before the expiration field was indexed
+    await relay.opensearchClient.index({
+      index: relay.testIndexName,
+      id: expired.id,
+      body: {
+        ...expired,
+        indexed_at: now,
+        tags_flat: [{ name: "expiration", value: expired.tags[0][1] }],
+      },
+      refresh: true,
+    });
+
+    // Created before the backfill existed
+    await relay.opensearchClient.indices.putMapping({
+      index: relay.testIndexName,
+      body: { _meta: {} },
+    });
+
+    await relay.migrate();
+
+    // The backfill runs in the background
+    let deleted = 0;
+    for (let i = 0; i < 50 && deleted === 0; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      await relay.refresh();
+      deleted = await relay.purgeExpired();
+    }
+    assertEquals(deleted, 1, "Backfilled expired event should be purged");
+  },
+});
+
+Deno.test({
+  name:
+    "OpenSearchRelay - vanish() erases author events and gift wraps (NIP-62)",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn() {
+    await using relay = await setupRelay();
+
+    const sk = generateSecretKey();
+    const pubkey = getPublicKey(sk);
+    const now = Math.floor(Date.now() / 1000);
+
+    const note = genEvent({ kind: 1, created_at: now - 60 }, sk);
+    const profile = genEvent({ kind: 0, created_at: now - 60 }, sk);
+    const giftWrap = genEvent({
+      kind: 1059,
+      created_at: now - 60,
+      tags: [["p", pubkey]],
+    });
+    const otherNote = genEvent({ kind: 1, created_at: now - 60 });
+
+    await relay.eventBatch([note, profile, giftWrap, otherNote]);
+    await relay.refresh(); // Force refresh for testing
+
+    const request = genEvent({
+      kind: 62,
+      created_at: now,
+      tags: [["relay", "ALL_RELAYS"]],
+    }, sk);
+    await relay.eventBatch([request]);
+    await relay.refresh(); // Force refresh for testing
+
+    const deleted = await relay.vanish(request);
+    assertEquals(deleted, 3, "Should delete the note, profile and gift wrap");
+    await relay.refresh(); // Force refresh for testing
+
+    const events = await relay.query([{}]);
+    const eventIds = events.map((e) => e.id).sort();
+    assertEquals(eventIds, [request.id, otherNote.id].sort());
+  },
+});
+
+Deno.test({
+  name:
+    "OpenSearchRelay - refuses events older than request to vanish (NIP-62)",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn() {
+    await using relay = await setupRelay();
+
+    const sk = generateSecretKey();
+    const now = Math.floor(Date.now() / 1000);
+
+    const request = genEvent({
+      kind: 62,
+      created_at: now - 30,
+      tags: [["relay", "ALL_RELAYS"]],
+    }, sk);
+    await relay.eventBatch([request]);
+    await relay.refresh(); // Force refresh for testing
+
+    // Re-upload of an older event is refused, newer events are accepted
+    const older = genEvent({ kind: 1, created_at: now - 60 }, sk);
+    const newer = genEvent({ kind: 1, created_at: now }, sk);
+    await relay.eventBatch([older, newer]);
+    await relay.event(genEvent({ kind: 1, created_at: now - 90 }, sk));
+    await relay.refresh(); // Force refresh for testing
+
+    const events = await relay.query([{ kinds: [1] }]);
+    assertEquals(events.map((e) => e.id), [newer.id]);
+  },
+});
+
+Deno.test({
+  name: "OpenSearchRelay - scan() pages through all matches in order (NIP-77)",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn() {
+    await using relay = await setupRelay();
+
+    const now = Math.floor(Date.now() / 1000);
+    const events = Array.from(
+      { length: 25 },
+      (_, i) => genEvent({ kind: 1, created_at: now - (i % 5) }),
+    );
+    const other = genEvent({ kind: 7, created_at: now });
+
+    await relay.eventBatch([...events, other]);
+    await relay.refresh(); // Force refresh for testing
+
+    // Small pages exercise search_after, and the filter limit is ignored
+    const scanned = [];
+    for await (
+      const event of relay.scan({ kinds: [1], limit: 1 }, { pageSize: 10 })
+    ) {
+      scanned.push(event);
+    }
+
+    const expected = events
+      .map((e) => ({ created_at: e.created_at, id: e.id }))
+      .sort((a, b) => a.created_at - b.created_at || a.id.localeCompare(b.id));
+    assertEquals(
+      scanned.map((e) => ({ created_at: e.created_at, id: e.id })),
+      expected,
+    );
+  },
+});
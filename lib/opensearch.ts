@@ -9,6 +9,14 @@ import {
   NostrRelayEVENT,
   NRelay,
 } from "@nostrify/nostrify";
+import { getEventExpiration } from "./expiration.ts";
+import { VANISH_KIND } from "./vanish.ts";
+import {
+  type EventVersion,
+  isAddressableKind,
+  isNewerVersion,
+  isReplaceableKind,
+} from "./replaceable.ts";
 
 /**
  * OpenSearch aggregation bucket type
@@ -61,6 +69,8 @@ interface NostrEventDocument {
   sig: string;
   tags: string[][];
   indexed_at: number;
+  // NIP-40 expiration timestamp, if the event has an expiration tag
+  expiration?: number;
   // Flattened tag fields for fast filtering
   tag_e?: string[];
   tag_p?: string[];
@@ -74,16 +84,11 @@ interface NostrEventDocument {
 }
 
 /**
- * Event kind categories based on NIP-01
+ * Event rejected by OpenSearch within a bulk request
  */
-function isReplaceableEvent(kind: number): boolean {
-  return (kind >= 10000 && kind < 20000) ||
-    kind === 0 ||
-    kind === 3;
-}
-
-function isAddressableEvent(kind: number): boolean {
-  return kind >= 30000 && kind < 40000;
+export interface BulkFailure {
+  event: NostrEvent;
+  reason: string;
 }
 
 /**
@@ -126,10 +131,10 @@ export class OpenSearchRelay implements NRelay, AsyncDisposable {
    * This ensures only the latest event is stored for replaceable/addressable events
    */
   private getDocumentId(event: NostrEvent): string {
-    if (isAddressableEvent(event.kind)) {
+    if (isAddressableKind(event.kind)) {
       const dTag = this.getTagValue(event.tags, "d");
       return `${event.kind}:${event.pubkey}:${dTag}`;
-    } else if (isReplaceableEvent(event.kind)) {
+    } else if (isReplaceableKind(event.kind)) {
       return `${event.kind}:${event.pubkey}:`;
     } else {
       // Regular and ephemeral events use their event ID
@@ -152,6 +157,10 @@ export class OpenSearchRelay implements NRelay, AsyncDisposable {
       indexed_at: Math.floor(Date.now() / 1000),
     };
 
+    // Index expiration timestamp for NIP-40 filtering and purging
+    const expiration = getEventExpiration(event);
+    if (expiration !== undefined) doc.expiration = expiration;
+
     // Index common tags for fast filtering
     const eValues = this.extractTagValues(event.tags, "e");
     if (eValues.length > 0) doc.tag_e = eValues;
@@ -202,6 +211,15 @@ export class OpenSearchRelay implements NRelay, AsyncDisposable {
     };
   }
 
+  /**
+   * Build OpenSearch query matching expired events (NIP-40)
+   */
+  private buildExpiredQuery(): Record<string, unknown> {
+    return {
+      range: { expiration: { lte: Math.floor(Date.now() / 1000) } },
+    };
+  }
+
   /**
    * Build OpenSearch query from Nostr filter
    */
@@ -280,7 +298,10 @@ export class OpenSearchRelay implements NRelay, AsyncDisposable {
     }
 
     const query: Record<string, unknown> = {
-      bool: {},
+      bool: {
+        // NIP-40: Never return expired events
+        must_not: [this.buildExpiredQuery()],
+      },
     };
 
     if (must.length > 0) {
@@ -290,11 +311,6 @@ export class OpenSearchRelay implements NRelay, AsyncDisposable {
       (query.bool as Record<string, unknown>).should = should;
     }
 
-    // If no conditions, match all
-    if (must.length === 0 && should.length === 0) {
-      return { match_all: {} };
-    }
-
     return query;
   }
 
@@ -333,15 +349,34 @@ export class OpenSearchRelay implements NRelay, AsyncDisposable {
     return { sortType, searchText, hasMultipleSorts: false };
   }
 
+  /**
+   * Abort an in-flight OpenSearch request when the signal is aborted
+   */
+  private async abortable<T>(
+    request: Promise<T> & { abort: () => void },
+    signal?: AbortSignal,
+  ): Promise<T> {
+    if (!signal) return await request;
+
+    const onAbort = () => request.abort();
+    signal.addEventListener("abort", onAbort, { once: true });
+    try {
+      return await request;
+    } finally {
+      signal.removeEventListener("abort", onAbort);
+    }
+  }
+
   /**
    * Query events from OpenSearch based on a single filter
    */
   private async queryFilter(
     filter: NostrFilter,
-    _signal?: AbortSignal,
+    signal?: AbortSignal,
   ): Promise<NostrEvent[]> {
     // If limit is 0, skip the query (realtime-only subscription)
-    if (filter.limit === 0) {
+    // Also skip if the query was cancelled before it started
+    if (filter.limit === 0 || signal?.aborted) {
       return [];
     }
 
@@ -381,23 +416,26 @@ export class OpenSearchRelay implements NRelay, AsyncDisposable {
       : [{ created_at: { order: "desc" as const } }];
 
     try {
-      const response = await this.client.search({
-        index: this.indexName,
-        body: {
-          query,
-          sort,
-          size: limit,
-          _source: [
-            "id",
-            "pubkey",
-            "created_at",
-            "kind",
-            "tags",
-            "content",
-            "sig",
-          ],
-        },
-      });
+      const response = await this.abortable(
+        this.client.search({
+          index: this.indexName,
+          body: {
+            query,
+            sort,
+            size: limit,
+            _source: [
+              "id",
+              "pubkey",
+              "created_at",
+              "kind",
+              "tags",
+              "content",
+              "sig",
+            ],
+          },
+        }),
+        signal,
+      );
 
       const hits = response.body.hits.hits;
       return hits.map((hit) =>
@@ -477,7 +515,10 @@ export class OpenSearchRelay implements NRelay, AsyncDisposable {
       }
     }
 
-    const baseQuery = must.length > 0 ? { bool: { must } } : { match_all: {} };
+    // NIP-40: Never return expired events
+    const baseQuery = {
+      bool: { must, must_not: [this.buildExpiredQuery()] },
+    };
 
     try {
       switch (sortType) {
@@ -949,6 +990,32 @@ export class OpenSearchRelay implements NRelay, AsyncDisposable {
     return events;
   }
 
+  /**
+   * Get the stored version of a replaceable or addressable event address
+   * Addresses are the document IDs of these events.
+   * @returns null if no version is stored
+   */
+  async getStoredVersion(address: string): Promise<EventVersion | null> {
+    try {
+      const existing = await this.client.get({
+        index: this.indexName,
+        id: address,
+        _source: ["id", "created_at"],
+      });
+      if (!existing.body.found) {
+        return null;
+      }
+
+      const { id, created_at } = existing.body._source as EventVersion;
+      return { id, created_at };
+    } catch (error) {
+      if ((error as { statusCode?: number }).statusCode === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
   /**
    * Check if a new event should replace an existing one
    * Returns true if newEvent is newer (higher created_at, or lower id if equal timestamps)
@@ -957,14 +1024,7 @@ export class OpenSearchRelay implements NRelay, AsyncDisposable {
     newEvent: NostrEvent,
     existingEvent: NostrEvent,
   ): boolean {
-    if (newEvent.created_at > existingEvent.created_at) {
-      return true;
-    }
-    if (newEvent.created_at === existingEvent.created_at) {
-      // Lower ID wins (lexical order)
-      return newEvent.id < existingEvent.id;
-    }
-    return false;
+    return isNewerVersion(newEvent, existingEvent);
   }
 
   /**
@@ -989,7 +1049,7 @@ export class OpenSearchRelay implements NRelay, AsyncDisposable {
       });
 
       // Check for deletion by addressable reference (a tag)
-      if (isAddressableEvent(event.kind)) {
+      if (isAddressableKind(event.kind)) {
         const dTag = this.getTagValue(event.tags, "d");
         const aTag = `${event.kind}:${event.pubkey}:${dTag}`;
         deletionFilters.push({
@@ -1006,7 +1066,7 @@ export class OpenSearchRelay implements NRelay, AsyncDisposable {
 
         // For addressable events, check if deletion timestamp is after event creation
         if (deletions.length > 0) {
-          if (isAddressableEvent(event.kind)) {
+          if (isAddressableKind(event.kind)) {
             // Check if any deletion event has created_at >= event.created_at
             const hasValidDeletion = deletions.some(
               (del) => del.created_at >= event.created_at,
@@ -1027,6 +1087,58 @@ export class OpenSearchRelay implements NRelay, AsyncDisposable {
     }
   }
 
+  /**
+   * Get the newest request to vanish (NIP-62) for each author of the events
+   * Considers stored requests as well as requests in the same batch
+   * Returns a map of pubkey to the created_at of the newest request
+   */
+  private async getVanishTombstones(
+    events: NostrEvent[],
+    opts?: { signal?: AbortSignal },
+  ): Promise<Map<string, number>> {
+    const tombstones = new Map<string, number>();
+    const addTombstone = (event: NostrEvent) => {
+      const existing = tombstones.get(event.pubkey);
+      if (existing === undefined || event.created_at > existing) {
+        tombstones.set(event.pubkey, event.created_at);
+      }
+    };
+
+    for (const event of events) {
+      if (event.kind === VANISH_KIND) addTombstone(event);
+    }
+
+    const authors = [...new Set(events.map((e) => e.pubkey))];
+    if (authors.length === 0) return tombstones;
+
+    try {
+      const requests = await this.queryFilter(
+        { kinds: [VANISH_KIND], authors, limit: 5000 },
+        opts?.signal,
+      );
+      for (const request of requests) addTombstone(request);
+    } catch (error) {
+      console.error("Failed to check vanish tombstones:", error);
+      // On error, rely on in-batch requests only to avoid blocking inserts
+    }
+
+    return tombstones;
+  }
+
+  /**
+   * Check if an event was published before its author requested to vanish
+   */
+  private isEventVanished(
+    event: NostrEvent,
+    tombstones: Map<string, number>,
+  ): boolean {
+    // Requests to vanish are kept as the tombstone itself
+    if (event.kind === VANISH_KIND) return false;
+
+    const vanishedAt = tombstones.get(event.pubkey);
+    return vanishedAt !== undefined && event.created_at <= vanishedAt;
+  }
+
   /**
    * Insert a single event into OpenSearch
    * Events are expected to be pre-validated
@@ -1049,11 +1161,18 @@ export class OpenSearchRelay implements NRelay, AsyncDisposable {
       return;
     }
 
+    // Check if the author requested to vanish after this event (NIP-62)
+    const tombstones = await this.getVanishTombstones([event], opts);
+    if (this.isEventVanished(event, tombstones)) {
+      console.log(`⚠️  Skipping vanished event ${event.id}`);
+      return;
+    }
+
     const doc = this.eventToDocument(event);
     const docId = this.getDocumentId(event);
 
     // For replaceable/addressable events, check if we should replace
-    if (isReplaceableEvent(event.kind) || isAddressableEvent(event.kind)) {
+    if (isReplaceableKind(event.kind) || isAddressableKind(event.kind)) {
       try {
         const existing = await this.client.get({
           index: this.indexName,
@@ -1100,13 +1219,16 @@ export class OpenSearchRelay implements NRelay, AsyncDisposable {
    * Events are expected to be pre-validated
    * For deletion events (kind 5), processes deletions before storing
    * Checks if events have been deleted before inserting
+   * Refuses events older than their author's request to vanish (NIP-62)
    * This is highly optimized for throughput
+   * Returns the events rejected within the bulk request, while failures of the
+   * whole request are thrown
    */
   async eventBatch(
     events: NostrEvent[],
     opts?: { signal?: AbortSignal },
-  ): Promise<void> {
-    if (events.length === 0) return;
+  ): Promise<BulkFailure[]> {
+    if (events.length === 0) return [];
 
     // Process deletion events first (NIP-09)
     const deletionEvents = events.filter((e) => e.kind === 5);
@@ -1132,12 +1254,23 @@ export class OpenSearchRelay implements NRelay, AsyncDisposable {
       console.log(`⚠️  Skipped ${deletedCount} deleted event(s)`);
     }
 
-    if (nonDeletedEvents.length === 0) return;
+    // Filter out events from authors that requested to vanish (NIP-62)
+    const tombstones = await this.getVanishTombstones(nonDeletedEvents, opts);
+    const nonVanishedEvents = nonDeletedEvents.filter(
+      (event) => !this.isEventVanished(event, tombstones),
+    );
+
+    const vanishedCount = nonDeletedEvents.length - nonVanishedEvents.length;
+    if (vanishedCount > 0) {
+      console.log(`⚠️  Skipped ${vanishedCount} vanished event(s)`);
+    }
+
+    if (nonVanishedEvents.length === 0) return [];
 
     // Group events by document ID to handle replaceable events
     const eventsByDocId = new Map<string, NostrEvent>();
 
-    for (const event of nonDeletedEvents) {
+    for (const event of nonVanishedEvents) {
       const docId = this.getDocumentId(event);
       const existing = eventsByDocId.get(docId);
 
@@ -1154,7 +1287,7 @@ export class OpenSearchRelay implements NRelay, AsyncDisposable {
     // For replaceable/addressable events, we need to check against DB
     const replaceableDocIds = Array.from(eventsByDocId.entries())
       .filter(([_, event]) =>
-        isReplaceableEvent(event.kind) || isAddressableEvent(event.kind)
+        isReplaceableKind(event.kind) || isAddressableKind(event.kind)
       )
       .map(([docId, _]) => docId);
 
@@ -1202,7 +1335,7 @@ export class OpenSearchRelay implements NRelay, AsyncDisposable {
       }
     }
 
-    if (eventsToInsert.length === 0) return;
+    if (eventsToInsert.length === 0) return [];
 
     // Build bulk request body
     const body: Array<Record<string, unknown> | NostrEventDocument> = [];
@@ -1228,52 +1361,120 @@ export class OpenSearchRelay implements NRelay, AsyncDisposable {
         signal: opts?.signal,
       });
 
-      if (response.body.errors) {
-        const erroredDocuments = response.body.items.filter(
-          (item: Record<string, unknown>) =>
-            (item.index as Record<string, unknown>)?.error,
-        );
-        console.error(
-          `Bulk insert had ${erroredDocuments.length} errors:`,
-          erroredDocuments.slice(0, 5),
-        );
+      if (!response.body.errors) {
+        return [];
       }
+
+      // Items are returned in the order of the bulk request
+      const failures: BulkFailure[] = [];
+      response.body.items.forEach((item, i) => {
+        const error = item.index?.error;
+        if (error) {
+          failures.push({
+            event: eventsToInsert[i][1],
+            reason: `${error.type}: ${error.reason ?? "unknown error"}`,
+          });
+        }
+      });
+
+      console.error(
+        `Bulk insert had ${failures.length} errors:`,
+        failures.slice(0, 5).map((failure) => failure.reason),
+      );
+      return failures;
     } catch (error) {
       console.error("Bulk insert failed:", error);
       throw error;
     }
   }
 
+  /**
+   * Stream every event matching a filter in `(created_at, id)` order
+   * Pages through the index with search_after, ignoring the filter limit.
+   * Only the fields needed for set reconciliation (NIP-77) and read access
+   * checks are returned, content and signatures are omitted.
+   */
+  async *scan(
+    filter: NostrFilter,
+    opts?: { signal?: AbortSignal; pageSize?: number },
+  ): AsyncGenerator<
+    Pick<NostrEvent, "id" | "pubkey" | "created_at" | "kind" | "tags">
+  > {
+    const query = this.buildQuery(filter);
+    const size = opts?.pageSize ?? 5000;
+    let searchAfter: (string | number)[] | undefined;
+
+    while (!opts?.signal?.aborted) {
+      const response = await this.abortable(
+        this.client.search({
+          index: this.indexName,
+          body: {
+            query,
+            sort: [
+              { created_at: { order: "asc" as const } },
+              { id: { order: "asc" as const } },
+            ],
+            size,
+            _source: ["id", "pubkey", "created_at", "kind", "tags"],
+            ...(searchAfter ? { search_after: searchAfter } : {}),
+          },
+        }),
+        opts?.signal,
+      );
+
+      const hits = response.body.hits.hits;
+      for (const hit of hits) {
+        const doc = hit._source as NostrEventDocument;
+        yield {
+          id: doc.id,
+          pubkey: doc.pubkey,
+          created_at: doc.created_at,
+          kind: doc.kind,
+          tags: doc.tags,
+        };
+      }
+
+      if (hits.length < size) return;
+      searchAfter = hits[hits.length - 1].sort as (string | number)[];
+    }
+  }
+
   /**
    * Query events from OpenSearch
+   * Filters are queried in parallel, each up to its own limit. Results of
+   * several filters are deduplicated and merged newest first, while a single
+   * filter keeps its own order (relevance for NIP-50 searches).
+   * Filters that fail or are aborted contribute no events.
    */
   async query(
     filters: NostrFilter[],
     opts?: { signal?: AbortSignal },
   ): Promise<NostrEvent[]> {
-    const allEvents: NostrEvent[] = [];
-    const seenIds = new Set<string>();
-
-    for (const filter of filters) {
-      if (opts?.signal?.aborted) {
-        break;
-      }
+    const results = await Promise.all(filters.map(async (filter) => {
       try {
-        const events = await this.queryFilter(filter, opts?.signal);
-
-        // Deduplicate events across filters
-        for (const event of events) {
-          if (!seenIds.has(event.id)) {
-            seenIds.add(event.id);
-            allEvents.push(event);
-          }
-        }
+        return await this.queryFilter(filter, opts?.signal);
       } catch (error) {
-        console.error("Query failed for filter:", filter, error);
+        // Cancelled queries are expected to fail
+        if (!opts?.signal?.aborted) {
+          console.error("Query failed for filter:", filter, error);
+        }
+        return [];
       }
+    }));
+
+    if (results.length === 1) {
+      return results[0];
     }
 
-    return allEvents;
+    // Deduplicate events across filters
+    const eventsById = new Map<string, NostrEvent>();
+    for (const event of results.flat()) {
+      eventsById.set(event.id, event);
+    }
+
+    return [...eventsById.values()].sort((a, b) =>
+      b.created_at - a.created_at || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)
+    );
   }
 
   /**
@@ -1302,10 +1503,12 @@ export class OpenSearchRelay implements NRelay, AsyncDisposable {
 
   /**
    * Count events matching filters
+   * @param opts.excludeKinds - Kinds left out of the count, such as private
+   *   kinds the counting party may not read
    */
   async count(
     filters: NostrFilter[],
-    opts?: { signal?: AbortSignal },
+    opts?: { signal?: AbortSignal; excludeKinds?: number[] },
   ): Promise<NostrRelayCOUNT[2]> {
     let total = 0;
 
@@ -1314,7 +1517,15 @@ export class OpenSearchRelay implements NRelay, AsyncDisposable {
         break;
       }
       try {
-        const query = this.buildQuery(filter);
+        let query = this.buildQuery(filter);
+        if (opts?.excludeKinds && opts.excludeKinds.length > 0) {
+          query = {
+            bool: {
+              must: [query],
+              must_not: [{ terms: { kind: opts.excludeKinds } }],
+            },
+          };
+        }
 
         const response = await this.client.count({
           index: this.indexName,
@@ -1466,6 +1677,85 @@ export class OpenSearchRelay implements NRelay, AsyncDisposable {
     }
   }
 
+  /**
+   * Delete all expired events (NIP-40)
+   * Returns the number of deleted documents
+   */
+  async purgeExpired(): Promise<number> {
+    try {
+      const response = await this.client.deleteByQuery({
+        index: this.indexName,
+        body: { query: this.buildExpiredQuery() },
+        conflicts: "proceed", // Skip documents replaced while deleting
+        refresh: false,
+      });
+
+      const deleted = "deleted" in response.body
+        ? response.body.deleted ?? 0
+        : 0;
+      if (deleted > 0) {
+        console.log(`🗑️  Purged ${deleted} expired events`);
+      }
+      return deleted;
+    } catch (error) {
+      console.error("Failed to purge expired events:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Erase everything from the author of a request to vanish (NIP-62)
+   * Deletes the author's events and gift wraps p-tagging the author up to the
+   * request's created_at. Requests to vanish are kept as tombstones.
+   * Returns the number of deleted documents
+   */
+  async vanish(request: NostrEvent): Promise<number> {
+    try {
+      const response = await this.client.deleteByQuery({
+        index: this.indexName,
+        body: {
+          query: {
+            bool: {
+              filter: [
+                { range: { created_at: { lte: request.created_at } } },
+              ],
+              should: [
+                {
+                  bool: {
+                    must: [{ term: { pubkey: request.pubkey } }],
+                    must_not: [{ term: { kind: VANISH_KIND } }],
+                  },
+                },
+                {
+                  bool: {
+                    must: [
+                      { term: { kind: 1059 } },
+                      { term: { tag_p: request.pubkey } },
+                    ],
+                  },
+                },
+              ],
+              minimum_should_match: 1,
+            },
+          },
+        },
+        conflicts: "proceed", // Skip documents replaced while deleting
+        refresh: false,
+      });
+
+      const deleted = "deleted" in response.body
+        ? response.body.deleted ?? 0
+        : 0;
+      console.log(
+        `🗑️  Deleted ${deleted} events for request to vanish from ${request.pubkey}`,
+      );
+      return deleted;
+    } catch (error) {
+      console.error("Failed to process request to vanish:", error);
+      throw error;
+    }
+  }
+
   /**
    * Force refresh the index (for testing)
    */
@@ -1489,6 +1779,78 @@ export class OpenSearchRelay implements NRelay, AsyncDisposable {
     await this.close();
   }
 
+  /**
+   * Index the expiration timestamp of events stored before the `expiration`
+   * field existed, so they're hidden and purged once expired (NIP-40)
+   * Runs as a background task, since it may touch many documents, and only
+   * once per index, recorded in the mapping's `_meta`.
+   */
+  private async backfillExpiration(): Promise<void> {
+    const response = await this.client.updateByQuery({
+      index: this.indexName,
+      body: {
+        query: {
+          bool: {
+            must: [{
+              nested: {
+                path: "tags_flat",
+                query: { term: { "tags_flat.name": "expiration" } },
+              },
+            }],
+            must_not: [{ exists: { field: "expiration" } }],
+          },
+        },
+        script: {
+          lang: "painless",
+          // Same rules as getEventExpiration(): the first expiration tag, if
+          // its value is a non-negative integer
+          source: `
+            ctx.op = 'noop';
+            for (def tag : ctx._source.tags) {
+              if (tag[0] == 'expiration') {
+                if (tag.size() >= 2) {
+                  try {
+                    long expiration = Long.parseLong(tag[1]);
+                    if (expiration >= 0) {
+                      ctx._source.expiration = expiration;
+                      ctx.op = 'index';
+                    }
+                  } catch (NumberFormatException e) {}
+                }
+                break;
+              }
+            }
+          `,
+        },
+      },
+      conflicts: "proceed", // Skip documents replaced while updating
+      wait_for_completion: false,
+    });
+
+    if ("task" in response.body) {
+      console.log(
+        `Backfilling expiration timestamps in task ${response.body.task}`,
+      );
+    }
+
+    await this.client.indices.putMapping({
+      index: this.indexName,
+      body: { _meta: { expiration_backfilled: true } },
+    });
+  }
+
+  /**
+   * Check if the expiration timestamps of the index were already backfilled
+   */
+  private async isExpirationBackfilled(): Promise<boolean> {
+    const response = await this.client.indices.getMapping({
+      index: this.indexName,
+    });
+    return Object.values(response.body).some((index) =>
+      index.mappings?._meta?.expiration_backfilled === true
+    );
+  }
+
   /**
    * Initialize OpenSearch index with optimized mappings
    */
@@ -1501,6 +1863,21 @@ export class OpenSearchRelay implements NRelay, AsyncDisposable {
 
       if (indexExists.body) {
         console.log(`Index ${this.indexName} already exists`);
+
+        // Add fields introduced after the index was created
+        await this.client.indices.putMapping({
+          index: this.indexName,
+          body: {
+            properties: {
+              expiration: {
+                type: "long",
+              },
+            },
+          },
+        });
+        if (!(await this.isExpirationBackfilled())) {
+          await this.backfillExpiration();
+        }
         return;
       }
 
@@ -1524,6 +1901,8 @@ export class OpenSearchRelay implements NRelay, AsyncDisposable {
           },
           mappings: {
             dynamic: "strict",
+            // New indexes have no events stored without an expiration field
+            _meta: { expiration_backfilled: true },
             properties: {
               id: {
                 type: "keyword",
@@ -1558,6 +1937,10 @@ export class OpenSearchRelay implements NRelay, AsyncDisposable {
               indexed_at: {
                 type: "long",
               },
+              // NIP-40 expiration timestamp
+              expiration: {
+                type: "long",
+              },
               // Optimized tag fields for common tags
               tag_e: {
                 type: "keyword",
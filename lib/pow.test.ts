@@ -0,0 +1,84 @@
+import { assertEquals } from "@std/assert";
+import type { NostrEvent } from "@nostrify/nostrify";
+import { getCommittedTarget, getPowDifficulty, validatePow } from "./pow.ts";
+
+// Helper to create test events
+function createTestEvent(overrides: Partial<NostrEvent> = {}): NostrEvent {
+  return {
+    id: "f".repeat(64),
+    pubkey: "0".repeat(64),
+    created_at: Math.floor(Date.now() / 1000),
+    kind: 1,
+    tags: [],
+    content: "test event",
+    sig: "0".repeat(128),
+    ...overrides,
+  };
+}
+
+Deno.test("getPowDifficulty - counts leading zero bits", () => {
+  assertEquals(getPowDifficulty("f".repeat(64)), 0);
+  assertEquals(getPowDifficulty("7" + "f".repeat(63)), 1);
+  assertEquals(getPowDifficulty("1" + "f".repeat(63)), 3);
+  assertEquals(getPowDifficulty("0" + "f".repeat(63)), 4);
+  assertEquals(getPowDifficulty("00" + "f".repeat(62)), 8);
+
+  // Example from NIP-13
+  assertEquals(
+    getPowDifficulty(
+      "000000000e9d97a1ab09fc381030b346cdd7a142ad57e6df0b46dc9bef6c7e2d",
+    ),
+    36,
+  );
+});
+
+Deno.test("getCommittedTarget - reads nonce tag target", () => {
+  assertEquals(
+    getCommittedTarget(createTestEvent({ tags: [["nonce", "776797", "20"]] })),
+    20,
+  );
+  assertEquals(
+    getCommittedTarget(createTestEvent({ tags: [["nonce", "776797"]] })),
+    undefined,
+  );
+  assertEquals(getCommittedTarget(createTestEvent()), undefined);
+});
+
+Deno.test("validatePow - disabled when minimum is 0", () => {
+  assertEquals(validatePow(createTestEvent(), 0).valid, true);
+});
+
+Deno.test("validatePow - requires committed target", () => {
+  const result = validatePow(createTestEvent({ id: "0".repeat(64) }), 8);
+  assertEquals(result.valid, false);
+});
+
+Deno.test("validatePow - rejects committed target below minimum", () => {
+  // Lucky id with high difficulty, but only committed to 4 bits
+  const event = createTestEvent({
+    id: "0".repeat(64),
+    tags: [["nonce", "1", "4"]],
+  });
+
+  const result = validatePow(event, 8);
+  assertEquals(result.valid, false);
+});
+
+Deno.test("validatePow - rejects difficulty below committed target", () => {
+  const event = createTestEvent({
+    id: "0f" + "f".repeat(62),
+    tags: [["nonce", "1", "8"]],
+  });
+
+  const result = validatePow(event, 8);
+  assertEquals(result.valid, false);
+});
+
+Deno.test("validatePow - accepts sufficient difficulty", () => {
+  const event = createTestEvent({
+    id: "00" + "f".repeat(62),
+    tags: [["nonce", "1", "8"]],
+  });
+
+  assertEquals(validatePow(event, 8).valid, true);
+});
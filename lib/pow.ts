@@ -0,0 +1,90 @@
+import type { NostrEvent } from "@nostrify/nostrify";
+
+/**
+ * NIP-13 Proof of Work
+ * Difficulty is the number of leading zero bits in the event id
+ */
+
+export interface PowValidationResult {
+  valid: boolean;
+  error?: string;
+}
+
+/**
+ * Count the leading zero bits of a hex event id
+ */
+export function getPowDifficulty(id: string): number {
+  let count = 0;
+
+  for (const char of id) {
+    const nibble = parseInt(char, 16);
+    if (isNaN(nibble)) {
+      break;
+    }
+    if (nibble === 0) {
+      count += 4;
+    } else {
+      // clz32 counts leading zeros of a 32-bit value, a nibble uses the last 4
+      count += Math.clz32(nibble) - 28;
+      break;
+    }
+  }
+
+  return count;
+}
+
+/**
+ * Get the target difficulty committed to in the `nonce` tag, if any
+ * Tag format: ["nonce", "<nonce>", "<target difficulty>"]
+ */
+export function getCommittedTarget(event: NostrEvent): number | undefined {
+  const nonceTag = event.tags.find((tag) => tag[0] === "nonce");
+  if (!nonceTag || nonceTag.length < 3) {
+    return undefined;
+  }
+
+  const target = parseInt(nonceTag[2], 10);
+  return isNaN(target) ? undefined : target;
+}
+
+/**
+ * Validate an event's proof of work against a minimum difficulty
+ * Both the actual difficulty of the id and the committed target must meet the
+ * minimum, so events that got lucky with a lower target are rejected
+ * @param event The event to validate (id must already be verified)
+ * @param minDifficulty The minimum required difficulty (0 disables the check)
+ */
+export function validatePow(
+  event: NostrEvent,
+  minDifficulty: number,
+): PowValidationResult {
+  if (minDifficulty <= 0) {
+    return { valid: true };
+  }
+
+  const target = getCommittedTarget(event);
+  if (target === undefined) {
+    return {
+      valid: false,
+      error: `missing committed target, difficulty ${minDifficulty} required`,
+    };
+  }
+
+  if (target < minDifficulty) {
+    return {
+      valid: false,
+      error:
+        `committed target ${target} is less than required difficulty ${minDifficulty}`,
+    };
+  }
+
+  const difficulty = getPowDifficulty(event.id);
+  if (difficulty < target) {
+    return {
+      valid: false,
+      error: `difficulty ${difficulty} is less than committed target ${target}`,
+    };
+  }
+
+  return { valid: true };
+}
@@ -0,0 +1,128 @@
+import { assertEquals } from "@std/assert";
+import { createClient as createRedisClient, type RedisClientType } from "redis";
+import { InboundQueue } from "./inbound-queue.ts";
+import { getCancelledSubId, QueryCancellation } from "./query-cancellation.ts";
+
+// Helper to create a fresh Redis connection and cancellation instance
+async function setup() {
+  const redis: RedisClientType = createRedisClient({
+    url: Deno.env.get("REDIS_URL") || "redis://localhost:6379",
+  });
+  await redis.connect();
+  // Poll quickly so tests don't wait long for cancellation
+  const cancellation = new QueryCancellation(redis, 10);
+  return { redis, cancellation };
+}
+
+// Wait for a few poll intervals
+function tick(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 50));
+}
+
+Deno.test("QueryCancellation - cancel aborts the running query", async () => {
+  const { redis, cancellation } = await setup();
+
+  const connId = "test-conn-cancel";
+
+  try {
+    const query = await cancellation.start(connId, "sub1");
+    await tick();
+    assertEquals(query.signal.aborted, false);
+
+    await cancellation.cancel(connId, "sub1");
+    await tick();
+    assertEquals(query.signal.aborted, true);
+
+    await query.finish();
+  } finally {
+    await cancellation.cancelAll(connId);
+    await redis.quit();
+  }
+});
+
+Deno.test("QueryCancellation - cancelAll aborts every query of a connection", async () => {
+  const { redis, cancellation } = await setup();
+
+  const connId = "test-conn-cancel-all";
+
+  try {
+    const query1 = await cancellation.start(connId, "sub1");
+    const query2 = await cancellation.start(connId, "sub2");
+
+    await cancellation.cancelAll(connId);
+    await tick();
+    assertEquals(query1.signal.aborted, true);
+    assertEquals(query2.signal.aborted, true);
+    assertEquals(await redis.exists(`query:conn:${connId}`), 0);
+
+    await query1.finish();
+    await query2.finish();
+  } finally {
+    await redis.quit();
+  }
+});
+
+Deno.test("QueryCancellation - a new query with the same ID replaces the old one", async () => {
+  const { redis, cancellation } = await setup();
+
+  const connId = "test-conn-replace";
+
+  try {
+    const oldQuery = await cancellation.start(connId, "sub1");
+    const newQuery = await cancellation.start(connId, "sub1");
+    await tick();
+
+    assertEquals(oldQuery.signal.aborted, true);
+    assertEquals(newQuery.signal.aborted, false);
+
+    // Finishing the old query leaves the new one registered
+    await oldQuery.finish();
+    assertEquals(await redis.exists(`query:${connId}:sub1`), 1);
+
+    await newQuery.finish();
+    assertEquals(await redis.exists(`query:${connId}:sub1`), 0);
+  } finally {
+    await cancellation.cancelAll(connId);
+    await redis.quit();
+  }
+});
+
+Deno.test("QueryCancellation - reusing an ID while a worker consumes cancels only the old query", async () => {
+  const { redis, cancellation } = await setup();
+  const inbound = new InboundQueue(redis);
+
+  const connId = "test-conn-reuse";
+  const req = '["REQ","sub1",{"kinds":[1]}]';
+
+  try {
+    const oldQuery = await cancellation.start(connId, "sub1");
+
+    // The server cancels the previous query before queueing the new REQ
+    await cancellation.cancel(connId, getCancelledSubId(req)!);
+    await inbound.push(connId, req, undefined, 10);
+
+    // A worker picks the REQ up right away and starts its query
+    const message = await inbound.pop(1);
+    assertEquals(message?.msg, req);
+    const newQuery = await cancellation.start(connId, "sub1");
+    await tick();
+
+    assertEquals(oldQuery.signal.aborted, true);
+    assertEquals(newQuery.signal.aborted, false);
+
+    await oldQuery.finish();
+    await newQuery.finish();
+    await inbound.release(message!);
+  } finally {
+    await cancellation.cancelAll(connId);
+    await inbound.clear(connId);
+    await redis.quit();
+  }
+});
+
+Deno.test("getCancelledSubId - parses the subscription ID of CLOSE and REQ", () => {
+  assertEquals(getCancelledSubId('["CLOSE","sub1"]'), "sub1");
+  assertEquals(getCancelledSubId(' [ "REQ" , "a\\"b", {}]'), 'a"b');
+  assertEquals(getCancelledSubId('["EVENT",{}]'), undefined);
+  assertEquals(getCancelledSubId('["CLOSE",1]'), undefined);
+});
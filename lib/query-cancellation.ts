@@ -0,0 +1,112 @@
+/**
+ * Cancellation of in-flight historical queries
+ *
+ * A REQ may be handled by one relay worker while its CLOSE (or the client's
+ * disconnect) is handled by another process. Each running query registers a
+ * token in Redis, and the worker running it polls the token and aborts the
+ * query once it is removed or replaced by a newer REQ with the same ID.
+ *
+ * Redis Keys:
+ * - `query:{connId}:{subId}` - Token of the running query (string)
+ * - `query:conn:{connId}` - Set of subscription IDs with running queries
+ */
+
+import type { RedisClientType } from "redis";
+
+// Upper bound on how long a query entry can outlive a crashed worker
+const QUERY_TTL_SECONDS = 60;
+
+/**
+ * Get the subscription ID of a raw CLOSE or REQ message, whose previous query
+ * it cancels
+ * Only the subscription ID is parsed, filters are left to the workers.
+ */
+export function getCancelledSubId(message: string): string | undefined {
+  const match = /^\s*\[\s*"(?:CLOSE|REQ)"\s*,\s*("(?:[^"\\]|\\.)*")/.exec(
+    message,
+  );
+  if (!match) {
+    return undefined;
+  }
+
+  try {
+    const subId = JSON.parse(match[1]);
+    return typeof subId === "string" ? subId : undefined;
+  } catch {
+    // Malformed messages are answered by the workers
+    return undefined;
+  }
+}
+
+/**
+ * Handle to a running query
+ */
+export interface ActiveQuery {
+  /** Aborted when the query is cancelled */
+  signal: AbortSignal;
+  /** Stop watching for cancellation and remove the query entry */
+  finish(): Promise<void>;
+}
+
+export class QueryCancellation {
+  constructor(
+    private redis: RedisClientType,
+    private pollIntervalMs = 200,
+  ) {}
+
+  /**
+   * Register a running query and watch for its cancellation
+   * Replaces (and thereby cancels) any running query with the same ID
+   */
+  async start(connId: string, subId: string): Promise<ActiveQuery> {
+    const key = `query:${connId}:${subId}`;
+    const token = crypto.randomUUID();
+
+    const pipeline = this.redis.multi();
+    pipeline.set(key, token, { EX: QUERY_TTL_SECONDS });
+    pipeline.sAdd(`query:conn:${connId}`, subId);
+    pipeline.expire(`query:conn:${connId}`, QUERY_TTL_SECONDS);
+    await pipeline.exec();
+
+    const controller = new AbortController();
+    const poller = setInterval(async () => {
+      try {
+        if ((await this.redis.get(key)) !== token) {
+          clearInterval(poller);
+          controller.abort();
+        }
+      } catch (error) {
+        console.error("Failed to check query cancellation:", error);
+      }
+    }, this.pollIntervalMs);
+
+    return {
+      signal: controller.signal,
+      finish: async () => {
+        clearInterval(poller);
+        // Leave the entry alone if a newer query replaced it
+        if ((await this.redis.get(key)) === token) {
+          await this.redis.del(key);
+          await this.redis.sRem(`query:conn:${connId}`, subId);
+        }
+      },
+    };
+  }
+
+  /**
+   * Cancel the running query of a subscription, if any
+   */
+  async cancel(connId: string, subId: string): Promise<void> {
+    await this.redis.del(`query:${connId}:${subId}`);
+    await this.redis.sRem(`query:conn:${connId}`, subId);
+  }
+
+  /**
+   * Cancel all running queries of a connection
+   */
+  async cancelAll(connId: string): Promise<void> {
+    const subIds = await this.redis.sMembers(`query:conn:${connId}`);
+    const keys = subIds.map((subId) => `query:${connId}:${subId}`);
+    await this.redis.del([...keys, `query:conn:${connId}`]);
+  }
+}
@@ -0,0 +1,126 @@
+import { assertEquals } from "@std/assert";
+import { createClient as createRedisClient, type RedisClientType } from "redis";
+import { RelayManagement } from "./management.ts";
+import {
+  isValidRateLimitRule,
+  RateLimiter,
+  rateLimitReason,
+} from "./rate-limit.ts";
+
+// Helper to create a fresh Redis connection and rate limiter
+async function setup() {
+  const redis: RedisClientType = createRedisClient({
+    url: Deno.env.get("REDIS_URL") || "redis://localhost:6379",
+  });
+  await redis.connect();
+  const management = new RelayManagement(redis);
+  // Don't cache rules, so changes apply immediately
+  const limiter = new RateLimiter(redis, management, 0);
+  return { redis, management, limiter };
+}
+
+// Helper to clean up rules and buckets
+async function cleanup(redis: RedisClientType) {
+  await redis.del("relay:ratelimits");
+  const buckets = await redis.keys("ratelimit:*:test-*");
+  if (buckets.length > 0) {
+    await redis.del(buckets);
+  }
+  await redis.quit();
+}
+
+Deno.test("isValidRateLimitRule - scopes and types", () => {
+  assertEquals(isValidRateLimitRule("ip:event"), true);
+  assertEquals(isValidRateLimitRule("conn:req"), true);
+  assertEquals(isValidRateLimitRule("pubkey:count"), true);
+  assertEquals(isValidRateLimitRule("conn:neg"), true);
+  assertEquals(isValidRateLimitRule("pubkey:kind:1"), true);
+
+  assertEquals(isValidRateLimitRule("ip"), false);
+  assertEquals(isValidRateLimitRule("user:event"), false);
+  assertEquals(isValidRateLimitRule("ip:close"), false);
+  assertEquals(isValidRateLimitRule("ip:kind:abc"), false);
+});
+
+Deno.test("rateLimitReason - describes the exceeded rule", () => {
+  assertEquals(
+    rateLimitReason("ip:event"),
+    "rate-limited: too many events from this IP address",
+  );
+  assertEquals(
+    rateLimitReason("conn:req"),
+    "rate-limited: too many REQ messages from this connection",
+  );
+  assertEquals(
+    rateLimitReason("pubkey:kind:1"),
+    "rate-limited: too many kind 1 events from this pubkey",
+  );
+});
+
+Deno.test("RateLimiter - allows bursts, then limits", async () => {
+  const { redis, management, limiter } = await setup();
+
+  try {
+    await management.setRateLimit("ip:event", { rate: 1, burst: 3 });
+    const checks = [{ rule: "ip:event", id: "test-1.2.3.4" }];
+
+    for (let i = 0; i < 3; i++) {
+      assertEquals(await limiter.consume(checks), undefined);
+    }
+    assertEquals(await limiter.consume(checks), "ip:event");
+
+    // Other identities have their own buckets
+    assertEquals(
+      await limiter.consume([{ rule: "ip:event", id: "test-5.6.7.8" }]),
+      undefined,
+    );
+
+    // Tokens refill over time
+    await new Promise((resolve) => setTimeout(resolve, 1100));
+    assertEquals(await limiter.consume(checks), undefined);
+  } finally {
+    await cleanup(redis);
+  }
+});
+
+Deno.test("RateLimiter - takes tokens from all buckets or none", async () => {
+  const { redis, management, limiter } = await setup();
+
+  try {
+    await management.setRateLimit("ip:event", { rate: 1, burst: 5 });
+    await management.setRateLimit("conn:event", { rate: 1, burst: 1 });
+
+    const checks = [
+      { rule: "ip:event", id: "test-ip" },
+      { rule: "conn:event", id: "test-conn" },
+    ];
+    assertEquals(await limiter.consume(checks), undefined);
+    assertEquals(await limiter.consume(checks), "conn:event");
+
+    // The rejected message took no token from the IP bucket
+    const bucket = await redis.hGet("ratelimit:ip:event:test-ip", "tokens");
+    assertEquals(Math.floor(Number(bucket)), 4);
+  } finally {
+    await cleanup(redis);
+  }
+});
+
+Deno.test("RateLimiter - ignores disabled and missing rules", async () => {
+  const { redis, management, limiter } = await setup();
+
+  try {
+    await management.setRateLimit("ip:req", { rate: 0, burst: 0 });
+
+    for (let i = 0; i < 200; i++) {
+      assertEquals(
+        await limiter.consume([
+          { rule: "ip:req", id: "test-ip" },
+          { rule: "pubkey:kind:1", id: "test-pubkey" },
+        ]),
+        undefined,
+      );
+    }
+  } finally {
+    await cleanup(redis);
+  }
+});
@@ -0,0 +1,150 @@
+/**
+ * Token-bucket rate limiting backed by Redis
+ *
+ * Each rule limits one kind of message per client identity, such as EVENT
+ * messages per IP address. Buckets hold up to `burst` tokens and refill at
+ * `rate` tokens per second, and every message takes one token from each bucket
+ * it's counted against. Buckets are shared by all relay workers.
+ *
+ * Rules are named `{scope}:{type}`:
+ * - Scopes: `ip`, `conn` (connection) and `pubkey` (event author)
+ * - Types: `event`, `req`, `count`, `neg` (NIP-77 NEG-OPEN) and `kind:{kind}`
+ *   (events of a kind)
+ *
+ * Redis Keys:
+ * - `ratelimit:{rule}:{id}` - Bucket of a rule for an IP, connection or pubkey (hash)
+ */
+
+import type { RedisClientType } from "redis";
+import type { RelayManagement } from "./management.ts";
+
+export interface RateLimit {
+  /** Tokens added per second, 0 disables the rule */
+  rate: number;
+  /** Maximum number of tokens, and thereby messages in a burst */
+  burst: number;
+}
+
+/**
+ * Rules applied unless they're changed through NIP-86
+ */
+export const DEFAULT_RATE_LIMITS: Record<string, RateLimit> = {
+  "ip:event": { rate: 10, burst: 100 },
+  "conn:event": { rate: 5, burst: 50 },
+  "pubkey:event": { rate: 5, burst: 50 },
+  "ip:req": { rate: 10, burst: 100 },
+  "conn:req": { rate: 5, burst: 50 },
+  "ip:count": { rate: 5, burst: 20 },
+  "conn:count": { rate: 2, burst: 10 },
+  "ip:neg": { rate: 1, burst: 10 },
+  "conn:neg": { rate: 1, burst: 5 },
+};
+
+/**
+ * A bucket to take a token from: the rule and the IP, connection or pubkey
+ */
+export interface RateLimitCheck {
+  rule: string;
+  id: string;
+}
+
+export function isValidRateLimitRule(rule: string): boolean {
+  return /^(ip|conn|pubkey):(event|req|count|neg|kind:\d+)$/.test(rule);
+}
+
+/**
+ * Reason returned to clients exceeding a rule
+ */
+export function rateLimitReason(rule: string): string {
+  const [scope, type, kind] = rule.split(":");
+  const subject = {
+    event: "events",
+    req: "REQ messages",
+    count: "COUNT messages",
+    neg: "NEG-OPEN messages",
+    kind: `kind ${kind} events`,
+  }[type] ?? "messages";
+  const source = {
+    ip: "IP address",
+    conn: "connection",
+    pubkey: "pubkey",
+  }[scope] ?? scope;
+
+  return `rate-limited: too many ${subject} from this ${source}`;
+}
+
+// Takes a token from every bucket, or none if any bucket is empty
+// Returns the 1-based index of the first empty bucket, or 0 if allowed
+const CONSUME_SCRIPT = `
+local time = redis.call("TIME")
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local tokens = {}
+for i, key in ipairs(KEYS) do
+  local rate = tonumber(ARGV[i * 2 - 1])
+  local burst = tonumber(ARGV[i * 2])
+  local bucket = redis.call("HMGET", key, "tokens", "ts")
+  local available = tonumber(bucket[1]) or burst
+  local ts = tonumber(bucket[2]) or now
+  available = math.min(burst, available + (now - ts) / 1000 * rate)
+  if available < 1 then
+    return i
+  end
+  tokens[i] = available
+end
+for i, key in ipairs(KEYS) do
+  local rate = tonumber(ARGV[i * 2 - 1])
+  local burst = tonumber(ARGV[i * 2])
+  redis.call("HSET", key, "tokens", tokens[i] - 1, "ts", now)
+  redis.call("PEXPIRE", key, math.ceil((burst - tokens[i] + 1) / rate * 1000))
+end
+return 0
+`;
+
+export class RateLimiter {
+  private rules?: Record<string, RateLimit>;
+  private rulesLoadedAt = 0;
+
+  constructor(
+    private redis: RedisClientType,
+    private management: RelayManagement,
+    private rulesTtlMs = 5000,
+  ) {}
+
+  /**
+   * Take a token from each bucket, all or nothing
+   * Checks without an enabled rule are ignored.
+   * @returns The rule of the first exhausted bucket, or undefined if allowed
+   */
+  async consume(checks: RateLimitCheck[]): Promise<string | undefined> {
+    const rules = await this.getRules();
+
+    const limited = checks.flatMap((check) => {
+      const limit = rules[check.rule];
+      return limit && limit.rate > 0 && limit.burst > 0
+        ? [{ ...check, limit }]
+        : [];
+    });
+    if (limited.length === 0) {
+      return undefined;
+    }
+
+    const result = await this.redis.eval(CONSUME_SCRIPT, {
+      keys: limited.map((check) => `ratelimit:${check.rule}:${check.id}`),
+      arguments: limited.flatMap((check) => [
+        check.limit.rate.toString(),
+        check.limit.burst.toString(),
+      ]),
+    }) as number;
+
+    return result > 0 ? limited[result - 1].rule : undefined;
+  }
+
+  // Rules are cached briefly, so changes apply within a few seconds
+  private async getRules(): Promise<Record<string, RateLimit>> {
+    if (!this.rules || Date.now() - this.rulesLoadedAt > this.rulesTtlMs) {
+      this.rules = await this.management.getRateLimits();
+      this.rulesLoadedAt = Date.now();
+    }
+    return this.rules;
+  }
+}
@@ -0,0 +1,210 @@
+import { assertEquals } from "@std/assert";
+import { createClient as createRedisClient, type RedisClientType } from "redis";
+import type { NostrEvent } from "@nostrify/nostrify";
+import { mergeRecentEvents, RecentEvents } from "./recent-events.ts";
+
+// Helper to create test events
+function createTestEvent(overrides: Partial<NostrEvent> = {}): NostrEvent {
+  return {
+    id: crypto.randomUUID().replace(/-/g, ""),
+    pubkey: "0".repeat(64),
+    created_at: Math.floor(Date.now() / 1000),
+    kind: 1,
+    tags: [],
+    content: "test event",
+    sig: "0".repeat(128),
+    ...overrides,
+  };
+}
+
+// Helper to create a fresh Redis connection
+async function setup() {
+  const redis: RedisClientType = createRedisClient({
+    url: Deno.env.get("REDIS_URL") || "redis://localhost:6379",
+  });
+  await redis.connect();
+  return redis;
+}
+
+// Helper to remove the cache entries of test events
+async function cleanup(redis: RedisClientType, events: NostrEvent[]) {
+  await new RecentEvents(redis).remove(events);
+  await redis.quit();
+}
+
+Deno.test("RecentEvents - finds cached events by ID, author and kind", async () => {
+  const redis = await setup();
+  const recent = new RecentEvents(redis);
+
+  const author = crypto.randomUUID().replace(/-/g, "");
+  const event = createTestEvent({ pubkey: author, kind: 30078 });
+  const other = createTestEvent({ kind: 30078 });
+
+  try {
+    await recent.add(event);
+    await recent.add(other);
+
+    assertEquals(await recent.query({ ids: [event.id] }), [event]);
+    assertEquals(await recent.query({ authors: [author] }), [event]);
+    assertEquals(await recent.query({ authors: [author], kinds: [1] }), []);
+
+    const byKind = await recent.query({ kinds: [30078] });
+    assertEquals(byKind.some((cached) => cached.id === event.id), true);
+    assertEquals(byKind.some((cached) => cached.id === other.id), true);
+  } finally {
+    await cleanup(redis, [event, other]);
+  }
+});
+
+Deno.test("RecentEvents - lookups only read the filter's time range and limit", async () => {
+  const redis = await setup();
+  const recent = new RecentEvents(redis);
+
+  const author = crypto.randomUUID().replace(/-/g, "");
+  const now = Math.floor(Date.now() / 1000);
+  const events = [0, 10, 20].map((age) =>
+    createTestEvent({ pubkey: author, created_at: now - age })
+  );
+
+  try {
+    for (const event of events) {
+      await recent.add(event);
+    }
+
+    assertEquals(await recent.query({ authors: [author], limit: 2 }), [
+      events[0],
+      events[1],
+    ]);
+    assertEquals(
+      await recent.query({
+        authors: [author],
+        since: now - 15,
+        until: now - 5,
+      }),
+      [events[1]],
+    );
+  } finally {
+    await cleanup(redis, events);
+  }
+});
+
+Deno.test("RecentEvents - indexed events expire after the refresh", async () => {
+  const redis = await setup();
+  const recent = new RecentEvents(redis, 200);
+
+  const event = createTestEvent();
+
+  try {
+    await recent.add(event);
+    await recent.indexed([event]);
+    assertEquals(await recent.query({ ids: [event.id] }), [event]);
+
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    assertEquals(await recent.query({ ids: [event.id] }), []);
+    assertEquals(await recent.query({ authors: [event.pubkey] }), []);
+  } finally {
+    await cleanup(redis, [event]);
+  }
+});
+
+Deno.test("RecentEvents - cached deletions hide cached events", async () => {
+  const redis = await setup();
+  const recent = new RecentEvents(redis);
+
+  const author = crypto.randomUUID().replace(/-/g, "");
+  const deleted = createTestEvent({ pubkey: author });
+  const kept = createTestEvent({ pubkey: author });
+  const deletion = createTestEvent({
+    pubkey: author,
+    kind: 5,
+    tags: [["e", deleted.id]],
+  });
+
+  try {
+    await recent.add(deleted);
+    await recent.add(kept);
+    await recent.add(deletion);
+
+    assertEquals(await recent.query({ authors: [author], kinds: [1] }), [kept]);
+  } finally {
+    await cleanup(redis, [deleted, kept, deletion]);
+  }
+});
+
+Deno.test("RecentEvents - requests to vanish drop the author's cached events", async () => {
+  const redis = await setup();
+  const recent = new RecentEvents(redis);
+
+  const author = crypto.randomUUID().replace(/-/g, "");
+  const now = Math.floor(Date.now() / 1000);
+  const erased = createTestEvent({ pubkey: author, created_at: now - 10 });
+  const giftWrap = createTestEvent({ kind: 1059, tags: [["p", author]] });
+  const later = createTestEvent({ pubkey: author, created_at: now + 10 });
+  const request = createTestEvent({ pubkey: author, kind: 62 });
+
+  try {
+    for (const event of [erased, giftWrap, later, request]) {
+      await recent.add(event);
+    }
+
+    await recent.vanish(request);
+
+    assertEquals(await recent.query({ authors: [author] }), [later, request]);
+    assertEquals(await recent.query({ ids: [giftWrap.id] }), []);
+  } finally {
+    await cleanup(redis, [erased, giftWrap, later, request]);
+  }
+});
+
+Deno.test("mergeRecentEvents - cached events are merged newest first within the limit", () => {
+  const now = Math.floor(Date.now() / 1000);
+  const stored = [
+    createTestEvent({ created_at: now - 20 }),
+    createTestEvent({ created_at: now - 30 }),
+  ];
+  const cached = createTestEvent({ created_at: now - 10 });
+
+  const events = mergeRecentEvents(
+    [{ kinds: [1], limit: 2 }],
+    [stored],
+    [[cached, stored[0]]],
+  );
+
+  assertEquals(events, [cached, stored[0]]);
+});
+
+Deno.test("mergeRecentEvents - results of multiple filters are merged without duplicates", () => {
+  const now = Math.floor(Date.now() / 1000);
+  const author = "a".repeat(64);
+  const stored = createTestEvent({ pubkey: author, created_at: now - 20 });
+  const cached = createTestEvent({ pubkey: author, created_at: now - 10 });
+
+  const events = mergeRecentEvents(
+    [{ kinds: [1] }, { authors: [author] }],
+    [[stored], [stored]],
+    [[cached], [cached]],
+  );
+
+  assertEquals(events, [cached, stored]);
+});
+
+Deno.test("mergeRecentEvents - cached versions replace stored ones", () => {
+  const now = Math.floor(Date.now() / 1000);
+  const stored = createTestEvent({ kind: 0, created_at: now - 20 });
+  const cached = createTestEvent({ kind: 0, created_at: now - 10 });
+
+  assertEquals(
+    mergeRecentEvents([{ kinds: [0] }], [[stored]], [[cached]]),
+    [cached],
+  );
+});
+
+Deno.test("mergeRecentEvents - search filters only use query results", () => {
+  const stored = createTestEvent({ content: "hello nostr" });
+  const cached = createTestEvent({ content: "hello nostr" });
+
+  assertEquals(
+    mergeRecentEvents([{ search: "nostr" }], [[stored]], [[cached]]),
+    [stored],
+  );
+});
@@ -0,0 +1,316 @@
+/**
+ * Cache of accepted events until they're searchable in storage
+ *
+ * Storage workers index events in batches, and OpenSearch only makes indexed
+ * events searchable after its refresh interval, so an event accepted just
+ * before a REQ may not be returned by its query yet, even by ID. Relay workers
+ * cache each accepted event until storage workers confirm it was indexed, and
+ * for `refreshMs` longer, and merge the cached events matching a REQ into its
+ * results. Events never confirmed expire after `ttlMs`.
+ *
+ * Cached events are looked up by ID, else by author, else by kind, else among
+ * all cached events. Lookups are ordered by `created_at`, so they only read
+ * the entries within a filter's `since` and `until`, and at most `maxScan` of
+ * them, or the filter's `limit` when the lookup condition is its only one.
+ * Each lookup set keeps its newest `maxScan * 10` entries.
+ *
+ * Redis Keys:
+ * - `nostr:events:recent:event:{id}` - Cached event (JSON)
+ * - `nostr:events:recent` - IDs of all cached events by `created_at`
+ *   (sorted set)
+ * - `nostr:events:recent:author:{pubkey}` - IDs of cached events by author
+ *   (sorted set)
+ * - `nostr:events:recent:kind:{kind}` - IDs of cached events by kind
+ *   (sorted set)
+ * - `nostr:events:recent:deletions:{pubkey}` - IDs of cached deletion requests
+ *   (NIP-09) by author (sorted set)
+ * - `nostr:events:recent:expiring` - Lookup entries of indexed events by expiry
+ *   time in ms, purged by storage workers (sorted set)
+ */
+
+import type { NostrEvent, NostrFilter } from "@nostrify/nostrify";
+import type { RedisClientType } from "redis";
+import { isEventExpired } from "./expiration.ts";
+import { getEventAddress, isNewerVersion } from "./replaceable.ts";
+import { eventMatchesFilter } from "./subscription-index.ts";
+import { VANISH_KIND } from "./vanish.ts";
+
+const RECENT_KEY = "nostr:events:recent";
+const EXPIRING_KEY = `${RECENT_KEY}:expiring`;
+
+function eventKey(id: string): string {
+  return `${RECENT_KEY}:event:${id}`;
+}
+
+function authorKey(pubkey: string): string {
+  return `${RECENT_KEY}:author:${pubkey}`;
+}
+
+function kindKey(kind: number): string {
+  return `${RECENT_KEY}:kind:${kind}`;
+}
+
+function deletionsKey(pubkey: string): string {
+  return `${RECENT_KEY}:deletions:${pubkey}`;
+}
+
+/**
+ * Lookup entry of an event, from which its lookup keys are derived
+ */
+type LookupEntry = [id: string, pubkey: string, kind: number];
+
+// Lookup keys an event's ID is added to
+function lookupKeys([, pubkey, kind]: LookupEntry): string[] {
+  const keys = [RECENT_KEY, authorKey(pubkey), kindKey(kind)];
+  if (kind === 5) {
+    keys.push(deletionsKey(pubkey));
+  }
+  return keys;
+}
+
+function lookupEntry(event: NostrEvent): LookupEntry {
+  return [event.id, event.pubkey, event.kind];
+}
+
+/**
+ * Check if a filter has no conditions besides its lookup condition and time
+ * range, so the newest `limit` entries of its lookup keys are enough
+ */
+function isCoveredByLookup(filter: NostrFilter): boolean {
+  const lookup = filter.authors && filter.authors.length > 0
+    ? "authors"
+    : "kinds";
+  return Object.entries(filter).every(([key, value]) =>
+    key === lookup || key === "since" || key === "until" || key === "limit" ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+export class RecentEvents {
+  constructor(
+    private redis: RedisClientType,
+    private refreshMs = 10000,
+    private ttlMs = 3600000,
+    private maxScan = 1000,
+  ) {}
+
+  /**
+   * Cache an accepted event until it's indexed
+   */
+  async add(event: NostrEvent): Promise<void> {
+    const pipeline = this.redis.multi();
+    pipeline.set(eventKey(event.id), JSON.stringify(event), { PX: this.ttlMs });
+    for (const key of lookupKeys(lookupEntry(event))) {
+      pipeline.zAdd(key, { score: event.created_at, value: event.id });
+      pipeline.zRemRangeByRank(key, 0, -this.maxScan * 10 - 1);
+      pipeline.pExpire(key, this.ttlMs);
+    }
+    await pipeline.exec();
+  }
+
+  /**
+   * Keep indexed events cached only until storage makes them searchable, and
+   * purge the lookup entries of events that became searchable
+   */
+  async indexed(events: NostrEvent[]): Promise<void> {
+    const now = Date.now();
+    const expired = await this.redis.zRangeByScore(EXPIRING_KEY, "-inf", now);
+
+    const pipeline = this.redis.multi();
+    for (const event of events) {
+      pipeline.pExpire(eventKey(event.id), this.refreshMs);
+      pipeline.zAdd(EXPIRING_KEY, {
+        score: now + this.refreshMs,
+        value: JSON.stringify(lookupEntry(event)),
+      });
+    }
+    for (const member of expired) {
+      const entry = JSON.parse(member) as LookupEntry;
+      for (const key of lookupKeys(entry)) {
+        pipeline.zRem(key, entry[0]);
+      }
+      pipeline.zRem(EXPIRING_KEY, member);
+    }
+    await pipeline.exec();
+  }
+
+  /**
+   * Drop events storage gave up on
+   */
+  async remove(events: NostrEvent[]): Promise<void> {
+    if (events.length === 0) return;
+
+    const pipeline = this.redis.multi();
+    for (const event of events) {
+      pipeline.del(eventKey(event.id));
+      for (const key of lookupKeys(lookupEntry(event))) {
+        pipeline.zRem(key, event.id);
+      }
+    }
+    await pipeline.exec();
+  }
+
+  /**
+   * Drop the cached events a request to vanish (NIP-62) erases, so they aren't
+   * served before storage deletes them: the author's events up to the request,
+   * besides the request itself, and the gift wraps addressed to the author
+   */
+  async vanish(request: NostrEvent): Promise<void> {
+    const range = { until: request.created_at };
+    const [authored, giftWraps] = await Promise.all([
+      this.scan([authorKey(request.pubkey)], range, this.maxScan * 10),
+      this.scan([kindKey(1059)], range, this.maxScan * 10),
+    ]);
+    const events = await this.get([...authored, ...giftWraps]);
+    await this.remove(
+      events.filter((event) =>
+        event.pubkey === request.pubkey
+          ? event.kind !== VANISH_KIND
+          : event.kind === 1059 &&
+            event.tags.some(([name, value]) =>
+              name === "p" && value === request.pubkey
+            )
+      ),
+    );
+  }
+
+  /**
+   * Get the cached events matching a filter, except those deleted by cached
+   * deletion requests (NIP-09) of their authors, which storage hasn't applied
+   * yet
+   */
+  async query(filter: NostrFilter): Promise<NostrEvent[]> {
+    const ids = filter.ids && filter.ids.length > 0
+      ? filter.ids
+      : await this.scan(
+        filter.authors && filter.authors.length > 0
+          ? filter.authors.map(authorKey)
+          : filter.kinds && filter.kinds.length > 0
+          ? filter.kinds.map(kindKey)
+          : [RECENT_KEY],
+        filter,
+        isCoveredByLookup(filter) && filter.limit !== undefined
+          ? Math.min(filter.limit, this.maxScan)
+          : this.maxScan,
+      );
+    const events = (await this.get(ids)).filter((event) =>
+      eventMatchesFilter(event, filter) && !isEventExpired(event)
+    );
+    if (events.length === 0) {
+      return events;
+    }
+
+    const authors = [...new Set(events.map((event) => event.pubkey))];
+    const deletions = await this.get(
+      await this.scan(authors.map(deletionsKey), {}, this.maxScan),
+    );
+    return withoutDeleted(events, deletions);
+  }
+
+  /**
+   * Get the IDs of the newest entries of lookup keys within a filter's time
+   * range, in a single round trip
+   */
+  private async scan(
+    keys: string[],
+    { since, until }: NostrFilter,
+    count: number,
+  ): Promise<string[]> {
+    if (count <= 0) return [];
+
+    const pipeline = this.redis.multi();
+    for (const key of keys) {
+      pipeline.zRange(key, until ?? "+inf", since ?? "-inf", {
+        BY: "SCORE",
+        REV: true,
+        LIMIT: { offset: 0, count },
+      });
+    }
+    const results = await pipeline.exec() as unknown as string[][];
+    return [...new Set(results.flat())];
+  }
+
+  private async get(ids: string[]): Promise<NostrEvent[]> {
+    if (ids.length === 0) return [];
+
+    const events = await this.redis.mGet(ids.map(eventKey));
+    return events
+      .filter((event): event is string => event !== null)
+      .map((event) => JSON.parse(event));
+  }
+}
+
+/**
+ * Sort events newest first, then by lowest ID
+ */
+function sortNewestFirst(events: NostrEvent[]): NostrEvent[] {
+  return events.sort((a, b) =>
+    b.created_at - a.created_at || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)
+  );
+}
+
+/**
+ * Keep one copy of each event, and the latest version of each replaceable or
+ * addressable event
+ */
+function dedupe(events: NostrEvent[]): NostrEvent[] {
+  const latest = new Map<string, NostrEvent>();
+  for (const event of events) {
+    const key = getEventAddress(event) ?? event.id;
+    const existing = latest.get(key);
+    if (!existing || isNewerVersion(event, existing)) {
+      latest.set(key, event);
+    }
+  }
+  return [...latest.values()];
+}
+
+/**
+ * Drop events deleted by deletion requests
+ */
+function withoutDeleted(
+  events: NostrEvent[],
+  deletions: NostrEvent[],
+): NostrEvent[] {
+  return events.filter((event) =>
+    !deletions.some((deletion) =>
+      deletion.pubkey === event.pubkey &&
+      deletion.tags.some(([name, value]) =>
+        (name === "e" && value === event.id) ||
+        (name === "a" && value === getEventAddress(event) &&
+          deletion.created_at >= event.created_at)
+      )
+    )
+  );
+}
+
+/**
+ * Merge cached events into the query results of a REQ
+ * Each filter's results are merged with its cached events and cut to its
+ * `limit`, then the results of all filters are merged newest first without
+ * duplicates. Search filters (NIP-50) only use their query results and keep
+ * their relevance order when they're the only filter.
+ *
+ * @param filters - Filters of the REQ, with their limits applied
+ * @param results - Query results of each filter
+ * @param recent - Cached events matching each filter
+ */
+export function mergeRecentEvents(
+  filters: NostrFilter[],
+  results: NostrEvent[][],
+  recent: NostrEvent[][],
+): NostrEvent[] {
+  const merged = filters.map((filter, i) => {
+    if (filter.search) {
+      return results[i];
+    }
+
+    const events = dedupe([...results[i], ...recent[i]]);
+    return sortNewestFirst(events).slice(0, filter.limit);
+  });
+
+  if (merged.length === 1) {
+    return merged[0];
+  }
+  return sortNewestFirst(dedupe(merged.flat()));
+}
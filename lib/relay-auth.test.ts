@@ -0,0 +1,292 @@
+import { assertEquals } from "@std/assert";
+import { finalizeEvent, generateSecretKey, getPublicKey } from "nostr-tools";
+import { createClient as createRedisClient, type RedisClientType } from "redis";
+import {
+  canCountFilter,
+  canReadEvent,
+  isProtectedEvent,
+  RelayAuth,
+  validateRelayAuthEvent,
+} from "./relay-auth.ts";
+
+// Helper to create a signed NIP-42 auth event
+function createAuthEvent(
+  sk: Uint8Array,
+  challenge: string,
+  relay: string,
+  overrides: { kind?: number; created_at?: number } = {},
+) {
+  return finalizeEvent(
+    {
+      kind: overrides.kind ?? 22242,
+      created_at: overrides.created_at ?? Math.floor(Date.now() / 1000),
+      tags: [
+        ["relay", relay],
+        ["challenge", challenge],
+      ],
+      content: "",
+    },
+    sk,
+  );
+}
+
+// Helper to create a fresh Redis connection and auth instance
+async function setup() {
+  const redis: RedisClientType = createRedisClient({
+    url: Deno.env.get("REDIS_URL") || "redis://localhost:6379",
+  });
+  await redis.connect();
+  const relayAuth = new RelayAuth(redis);
+  return { redis, relayAuth };
+}
+
+Deno.test("validateRelayAuthEvent - valid event", () => {
+  const sk = generateSecretKey();
+  const event = createAuthEvent(sk, "challenge123", "wss://relay.example.com");
+
+  const result = validateRelayAuthEvent(
+    event,
+    "challenge123",
+    "wss://relay.example.com",
+  );
+  assertEquals(result.valid, true);
+  assertEquals(result.pubkey, getPublicKey(sk));
+});
+
+Deno.test("validateRelayAuthEvent - relay URL scheme and trailing slash ignored", () => {
+  const sk = generateSecretKey();
+  const event = createAuthEvent(sk, "challenge123", "wss://relay.example.com");
+
+  const result = validateRelayAuthEvent(
+    event,
+    "challenge123",
+    "https://relay.example.com/",
+  );
+  assertEquals(result.valid, true);
+});
+
+Deno.test("validateRelayAuthEvent - wrong kind", () => {
+  const sk = generateSecretKey();
+  const event = createAuthEvent(
+    sk,
+    "challenge123",
+    "wss://relay.example.com",
+    { kind: 1 },
+  );
+
+  const result = validateRelayAuthEvent(
+    event,
+    "challenge123",
+    "wss://relay.example.com",
+  );
+  assertEquals(result.valid, false);
+  assertEquals(result.error, "Auth event must be kind 22242");
+});
+
+Deno.test("validateRelayAuthEvent - expired timestamp", () => {
+  const sk = generateSecretKey();
+  const event = createAuthEvent(
+    sk,
+    "challenge123",
+    "wss://relay.example.com",
+    { created_at: Math.floor(Date.now() / 1000) - 1200 }, // 20 minutes ago
+  );
+
+  const result = validateRelayAuthEvent(
+    event,
+    "challenge123",
+    "wss://relay.example.com",
+  );
+  assertEquals(result.valid, false);
+  assertEquals(result.error?.includes("timestamp outside"), true);
+});
+
+Deno.test("validateRelayAuthEvent - challenge mismatch", () => {
+  const sk = generateSecretKey();
+  const event = createAuthEvent(sk, "challenge123", "wss://relay.example.com");
+
+  const result = validateRelayAuthEvent(
+    event,
+    "other-challenge",
+    "wss://relay.example.com",
+  );
+  assertEquals(result.valid, false);
+  assertEquals(result.error, "Challenge in 'challenge' tag does not match");
+});
+
+Deno.test("validateRelayAuthEvent - relay mismatch", () => {
+  const sk = generateSecretKey();
+  const event = createAuthEvent(sk, "challenge123", "wss://other.example.com");
+
+  const result = validateRelayAuthEvent(
+    event,
+    "challenge123",
+    "wss://relay.example.com",
+  );
+  assertEquals(result.valid, false);
+  assertEquals(result.error, "URL in 'relay' tag does not match relay URL");
+});
+
+Deno.test("canReadEvent - private kinds restricted to author and recipients", () => {
+  const author = "a".repeat(64);
+  const recipient = "b".repeat(64);
+  const stranger = "c".repeat(64);
+  const privateKinds = [4, 1059];
+
+  const event = {
+    id: "0".repeat(64),
+    pubkey: author,
+    created_at: Math.floor(Date.now() / 1000),
+    kind: 4,
+    tags: [["p", recipient]],
+    content: "encrypted",
+    sig: "0".repeat(128),
+  };
+
+  assertEquals(canReadEvent(event, author, privateKinds), true);
+  assertEquals(canReadEvent(event, recipient, privateKinds), true);
+  assertEquals(canReadEvent(event, stranger, privateKinds), false);
+  assertEquals(canReadEvent(event, undefined, privateKinds), false);
+
+  // Non-private kinds are readable by anyone
+  assertEquals(
+    canReadEvent({ ...event, kind: 1 }, undefined, privateKinds),
+    true,
+  );
+
+  // An empty list disables the restriction
+  assertEquals(canReadEvent(event, undefined, []), true);
+});
+
+Deno.test("canCountFilter - private kinds only counted for the authenticated pubkey", () => {
+  const pubkey = "a".repeat(64);
+  const victim = "b".repeat(64);
+  const privateKinds = [4, 1059];
+
+  // Scoped to the authenticated pubkey as author or recipient
+  assertEquals(
+    canCountFilter({ kinds: [4], authors: [pubkey] }, pubkey, privateKinds),
+    true,
+  );
+  assertEquals(
+    canCountFilter({ kinds: [1059], "#p": [pubkey] }, pubkey, privateKinds),
+    true,
+  );
+
+  // Other parties' DMs and gift wraps
+  assertEquals(
+    canCountFilter({ kinds: [4], "#p": [victim] }, pubkey, privateKinds),
+    false,
+  );
+  assertEquals(
+    canCountFilter(
+      { kinds: [1059], "#p": [pubkey, victim] },
+      pubkey,
+      privateKinds,
+    ),
+    false,
+  );
+  assertEquals(canCountFilter({ kinds: [4] }, pubkey, privateKinds), false);
+  assertEquals(
+    canCountFilter({ kinds: [4], authors: [pubkey] }, undefined, privateKinds),
+    false,
+  );
+
+  // Filters without kinds would count other parties' private events too
+  assertEquals(canCountFilter({ "#p": [victim] }, pubkey, privateKinds), false);
+  assertEquals(
+    canCountFilter({ authors: [victim] }, undefined, privateKinds),
+    false,
+  );
+  assertEquals(canCountFilter({ "#p": [pubkey] }, pubkey, privateKinds), true);
+
+  // Non-private kinds are countable by anyone
+  assertEquals(
+    canCountFilter({ kinds: [1], "#p": [victim] }, undefined, privateKinds),
+    true,
+  );
+});
+
+Deno.test("isProtectedEvent - detects the NIP-70 tag", () => {
+  const event = {
+    id: "0".repeat(64),
+    pubkey: "a".repeat(64),
+    created_at: Math.floor(Date.now() / 1000),
+    kind: 1,
+    tags: [["-"]],
+    content: "protected",
+    sig: "0".repeat(128),
+  };
+
+  assertEquals(isProtectedEvent(event), true);
+  assertEquals(isProtectedEvent({ ...event, tags: [] }), false);
+  assertEquals(
+    isProtectedEvent({ ...event, tags: [["t", "-"], ["-", "x"]] }),
+    false,
+  );
+});
+
+Deno.test("RelayAuth - authenticate with issued challenge", async () => {
+  const { redis, relayAuth } = await setup();
+
+  const connId = "test-conn-auth";
+  const relayUrl = "http://localhost:8000/";
+
+  try {
+    const challenge = await relayAuth.createChallenge(connId, relayUrl);
+    assertEquals(await relayAuth.getPubkey(connId), undefined);
+
+    const sk = generateSecretKey();
+    const event = createAuthEvent(sk, challenge, "ws://localhost:8000");
+
+    const result = await relayAuth.authenticate(connId, event);
+    assertEquals(result.valid, true);
+    assertEquals(await relayAuth.getPubkey(connId), getPublicKey(sk));
+
+    // Clearing the connection removes the authenticated pubkey
+    await relayAuth.clear(connId);
+    assertEquals(await relayAuth.getPubkey(connId), undefined);
+  } finally {
+    await redis.del(`auth:${connId}`);
+    await redis.quit();
+  }
+});
+
+Deno.test("RelayAuth - reject without issued challenge", async () => {
+  const { redis, relayAuth } = await setup();
+
+  const connId = "test-conn-no-challenge";
+
+  try {
+    const sk = generateSecretKey();
+    const event = createAuthEvent(sk, "guessed", "ws://localhost:8000");
+
+    const result = await relayAuth.authenticate(connId, event);
+    assertEquals(result.valid, false);
+    assertEquals(result.error, "No challenge issued for this connection");
+    assertEquals(await relayAuth.getPubkey(connId), undefined);
+  } finally {
+    await redis.del(`auth:${connId}`);
+    await redis.quit();
+  }
+});
+
+Deno.test("RelayAuth - wrong challenge does not authenticate", async () => {
+  const { redis, relayAuth } = await setup();
+
+  const connId = "test-conn-wrong-challenge";
+
+  try {
+    await relayAuth.createChallenge(connId, "http://localhost:8000/");
+
+    const sk = generateSecretKey();
+    const event = createAuthEvent(sk, "wrong", "ws://localhost:8000");
+
+    const result = await relayAuth.authenticate(connId, event);
+    assertEquals(result.valid, false);
+    assertEquals(await relayAuth.getPubkey(connId), undefined);
+  } finally {
+    await redis.del(`auth:${connId}`);
+    await redis.quit();
+  }
+});
@@ -0,0 +1,245 @@
+/**
+ * NIP-42 Authentication of clients to relays
+ *
+ * The server issues an `["AUTH", challenge]` message when a WebSocket opens and
+ * stores the challenge in Redis. Any relay worker can then verify the client's
+ * kind 22242 response and record the authenticated pubkey for that connection.
+ *
+ * Redis Keys:
+ * - `auth:{connId}` - Challenge, relay URL and authenticated pubkey (hash)
+ */
+
+import type { RedisClientType } from "redis";
+import { type Event as NostrEvent, verifyEvent } from "nostr-tools";
+import type { NostrFilter } from "@nostrify/nostrify";
+import type { AuthValidationResult } from "./auth.ts";
+
+// Records the authenticated pubkey if the connection's auth state still exists
+const AUTHENTICATE_SCRIPT = `
+if redis.call("EXISTS", KEYS[1]) == 0 then
+  return 0
+end
+redis.call("HSET", KEYS[1], "pubkey", ARGV[1])
+return 1
+`;
+
+/**
+ * Normalize a relay URL for comparison
+ * Ignores the scheme (ws/wss/http/https) and trailing slashes, since clients
+ * commonly use the websocket URL while the relay may only know its HTTP URL
+ */
+export function normalizeRelayUrl(url: string): string {
+  const parsed = new URL(url);
+  const path = parsed.pathname.replace(/\/+$/, "");
+  return `${parsed.host}${path}`.toLowerCase();
+}
+
+/**
+ * Validate a NIP-42 auth event
+ * @param event The auth event to validate
+ * @param challenge The challenge issued to the connection
+ * @param relayUrl The URL of this relay
+ * @param timeWindowSeconds How many seconds old the event can be (default 600)
+ */
+export function validateRelayAuthEvent(
+  event: NostrEvent,
+  challenge: string,
+  relayUrl: string,
+  timeWindowSeconds = 600,
+): AuthValidationResult {
+  // 1. Check kind is 22242
+  if (event.kind !== 22242) {
+    return {
+      valid: false,
+      error: "Auth event must be kind 22242",
+    };
+  }
+
+  // 2. Check created_at is within time window
+  const now = Math.floor(Date.now() / 1000);
+  const age = now - event.created_at;
+  if (Math.abs(age) > timeWindowSeconds) {
+    return {
+      valid: false,
+      error: `Auth event timestamp outside ${timeWindowSeconds}s window`,
+    };
+  }
+
+  // 3. Check 'challenge' tag matches the issued challenge
+  const challengeTag = event.tags.find((tag) => tag[0] === "challenge");
+  if (!challengeTag || challengeTag[1] !== challenge) {
+    return {
+      valid: false,
+      error: "Challenge in 'challenge' tag does not match",
+    };
+  }
+
+  // 4. Check 'relay' tag matches this relay
+  const relayTag = event.tags.find((tag) => tag[0] === "relay");
+  try {
+    if (
+      !relayTag ||
+      normalizeRelayUrl(relayTag[1]) !== normalizeRelayUrl(relayUrl)
+    ) {
+      return {
+        valid: false,
+        error: "URL in 'relay' tag does not match relay URL",
+      };
+    }
+  } catch {
+    return {
+      valid: false,
+      error: "Invalid URL in 'relay' tag",
+    };
+  }
+
+  // 5. Verify signature
+  if (!verifyEvent(event)) {
+    return {
+      valid: false,
+      error: "Invalid event signature",
+    };
+  }
+
+  return {
+    valid: true,
+    pubkey: event.pubkey,
+  };
+}
+
+/**
+ * Check if an event can be read by a connection
+ * Events of private kinds (e.g. DMs and gift wraps) are only readable by their
+ * author or a `p`-tagged recipient, all other events are readable by anyone
+ * @param event The event to check
+ * @param pubkey The authenticated pubkey of the connection, if any
+ * @param privateKinds Kinds restricted to their author and recipients
+ */
+export function canReadEvent(
+  event: Pick<NostrEvent, "kind" | "pubkey" | "tags">,
+  pubkey: string | undefined,
+  privateKinds: number[],
+): boolean {
+  if (!privateKinds.includes(event.kind)) {
+    return true;
+  }
+
+  if (!pubkey) {
+    return false;
+  }
+
+  return event.pubkey === pubkey ||
+    event.tags.some((tag) => tag[0] === "p" && tag[1] === pubkey);
+}
+
+/**
+ * Check if a COUNT filter only counts private events the connection is a party
+ * to (NIP-45)
+ * Counts can't be narrowed per event like REQ results, so filters of private
+ * kinds, or of any kind, must be scoped to the authenticated pubkey by their
+ * authors or `#p`
+ * @param filter The filter to check
+ * @param pubkey The authenticated pubkey of the connection, if any
+ * @param privateKinds Kinds restricted to their author and recipients
+ */
+export function canCountFilter(
+  filter: NostrFilter,
+  pubkey: string | undefined,
+  privateKinds: number[],
+): boolean {
+  // Filters without kinds match private kinds too
+  if (
+    filter.kinds && filter.kinds.length > 0 &&
+    !filter.kinds.some((kind) => privateKinds.includes(kind))
+  ) {
+    return true;
+  }
+
+  if (!pubkey) {
+    return false;
+  }
+
+  const isOwn = (values: string[] | undefined) =>
+    !!values && values.length > 0 && values.every((value) => value === pubkey);
+  return isOwn(filter.authors) || isOwn(filter["#p"]);
+}
+
+/**
+ * Check if an event is protected (NIP-70)
+ * Protected events carry a `["-"]` tag and may only be published by their
+ * authenticated author
+ */
+export function isProtectedEvent(event: NostrEvent): boolean {
+  return event.tags.some((tag) => tag.length === 1 && tag[0] === "-");
+}
+
+/**
+ * Per-connection NIP-42 authentication state stored in Redis
+ */
+export class RelayAuth {
+  constructor(private redis: RedisClientType) {}
+
+  /**
+   * Create a new challenge for a connection
+   * The relay URL is stored alongside so workers can validate the 'relay' tag
+   */
+  async createChallenge(connId: string, relayUrl: string): Promise<string> {
+    const authKey = `auth:${connId}`;
+    const challenge = crypto.randomUUID();
+
+    await this.redis.hSet(authKey, { challenge, relay: relayUrl });
+
+    return challenge;
+  }
+
+  /**
+   * Verify an AUTH event against the connection's challenge
+   * On success, records the authenticated pubkey for the connection
+   */
+  async authenticate(
+    connId: string,
+    event: NostrEvent,
+  ): Promise<AuthValidationResult> {
+    const authKey = `auth:${connId}`;
+    const authData = await this.redis.hGetAll(authKey);
+
+    if (!authData.challenge || !authData.relay) {
+      return {
+        valid: false,
+        error: "No challenge issued for this connection",
+      };
+    }
+
+    const result = validateRelayAuthEvent(
+      event,
+      authData.challenge,
+      authData.relay,
+    );
+
+    if (result.valid) {
+      // Only if the connection didn't close and clear its state meanwhile
+      await this.redis.eval(AUTHENTICATE_SCRIPT, {
+        keys: [authKey],
+        arguments: [result.pubkey!],
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Get the authenticated pubkey for a connection, if any
+   */
+  async getPubkey(connId: string): Promise<string | undefined> {
+    const pubkey = await this.redis.hGet(`auth:${connId}`, "pubkey");
+    return pubkey || undefined;
+  }
+
+  /**
+   * Remove auth state for a connection
+   * Called when a WebSocket connection closes
+   */
+  async clear(connId: string): Promise<void> {
+    await this.redis.del(`auth:${connId}`);
+  }
+}
@@ -19,6 +19,7 @@ async function cleanup(redis: RedisClientType) {
   await redis.del("relay:allowed:pubkeys");
   await redis.del("relay:allowed:kinds");
   await redis.del("relay:banned:pubkeys");
+  await redis.del("relay:pow:min");
   await redis.quit();
 }
 
@@ -117,6 +118,20 @@ Deno.test("getRelayInformation - restricted writes detection", async () => {
   await cleanup(redis);
 });
 
+Deno.test("getRelayInformation - min PoW difficulty", async () => {
+  const redis = await setup();
+
+  let info = await getRelayInformation(redis);
+  assertEquals(info.limitation?.min_pow_difficulty, 0);
+
+  await redis.set("relay:pow:min", "20");
+
+  info = await getRelayInformation(redis);
+  assertEquals(info.limitation?.min_pow_difficulty, 20);
+
+  await cleanup(redis);
+});
+
 Deno.test("getRelayInformation - retention policy", async () => {
   const redis = await setup();
 
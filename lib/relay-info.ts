@@ -1,4 +1,6 @@
 import type { RedisClientType } from "redis";
+import { DEFAULT_LIMITS } from "./limits.ts";
+import { RelayManagement } from "./management.ts";
 
 /**
  * NIP-11 Relay Information Document
@@ -94,27 +96,25 @@ export async function getRelayInformation(
       1, // Basic protocol flow
       9, // Event deletion
       11, // Relay information document
+      13, // Proof of work
+      40, // Expiration timestamp
+      42, // Authentication of clients to relays
       45, // Event counts
       50, // Full-text search
+      62, // Request to vanish
+      70, // Protected events
+      77, // Negentropy syncing
       86, // Relay management API
       98, // HTTP authentication
     ],
 
     // Server limitations
     limitation: {
-      max_message_length: 500000, // 500KB max message
-      max_subscriptions: 300, // Max 300 subscriptions per connection
-      max_limit: 5000, // Max 5000 events per filter
-      max_subid_length: 100, // Max subscription ID length
-      max_event_tags: 100, // Max tags per event
-      max_content_length: 500000, // Max content length
+      ...DEFAULT_LIMITS, // Enforced limits (overridden by the relay config)
       min_pow_difficulty: 0, // No PoW required
       auth_required: false, // No NIP-42 auth required
       payment_required: false, // No payment required
       restricted_writes: false, // Public relay (unless configured otherwise)
-      created_at_lower_limit: 0, // No lower limit on created_at
-      created_at_upper_limit: Math.floor(Date.now() / 1000) + 3600, // 1 hour in future
-      default_limit: 500, // Default limit if not specified
       ...staticInfo.limitation,
     },
 
@@ -136,5 +136,12 @@ export async function getRelayInformation(
     info.limitation!.restricted_writes = true;
   }
 
+  // Report the global PoW minimum (set via NIP-86)
+  const minPowDifficulty = await new RelayManagement(redis)
+    .getMinPowDifficulty();
+  if (minPowDifficulty > 0) {
+    info.limitation!.min_pow_difficulty = minPowDifficulty;
+  }
+
   return info;
 }
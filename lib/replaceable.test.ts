@@ -0,0 +1,135 @@
+import { assertEquals } from "@std/assert";
+import { createClient as createRedisClient, type RedisClientType } from "redis";
+import type { NostrEvent } from "@nostrify/nostrify";
+import {
+  getEventAddress,
+  isNewerVersion,
+  LatestVersions,
+} from "./replaceable.ts";
+
+const PUBKEY = "0".repeat(64);
+const ADDRESS = `0:${PUBKEY}:`;
+
+// Helper to create test events
+function createTestEvent(overrides: Partial<NostrEvent> = {}): NostrEvent {
+  return {
+    id: "f".repeat(64),
+    pubkey: PUBKEY,
+    created_at: 1000,
+    kind: 1,
+    tags: [],
+    content: "",
+    sig: "0".repeat(128),
+    ...overrides,
+  };
+}
+
+// Helper to create a fresh Redis connection
+async function setup() {
+  const redis: RedisClientType = createRedisClient({
+    url: Deno.env.get("REDIS_URL") || "redis://localhost:6379",
+  });
+  await redis.connect();
+  await redis.del(`nostr:latest:${ADDRESS}`);
+  return redis;
+}
+
+async function cleanup(redis: RedisClientType) {
+  await redis.del(`nostr:latest:${ADDRESS}`);
+  await redis.quit();
+}
+
+Deno.test("getEventAddress - addresses replaceable and addressable events", () => {
+  assertEquals(getEventAddress(createTestEvent({ kind: 0 })), `0:${PUBKEY}:`);
+  assertEquals(
+    getEventAddress(createTestEvent({ kind: 10002 })),
+    `10002:${PUBKEY}:`,
+  );
+  assertEquals(
+    getEventAddress(createTestEvent({ kind: 30023, tags: [["d", "a:b"]] })),
+    `30023:${PUBKEY}:a:b`,
+  );
+  assertEquals(
+    getEventAddress(createTestEvent({ kind: 30023 })),
+    `30023:${PUBKEY}:`,
+  );
+  assertEquals(getEventAddress(createTestEvent({ kind: 1 })), undefined);
+  assertEquals(getEventAddress(createTestEvent({ kind: 20001 })), undefined);
+});
+
+Deno.test("isNewerVersion - newer wins, then the lower ID", () => {
+  assertEquals(
+    isNewerVersion({ id: "b", created_at: 2 }, { id: "a", created_at: 1 }),
+    true,
+  );
+  assertEquals(
+    isNewerVersion({ id: "a", created_at: 1 }, { id: "b", created_at: 2 }),
+    false,
+  );
+  assertEquals(
+    isNewerVersion({ id: "a", created_at: 1 }, { id: "b", created_at: 1 }),
+    true,
+  );
+  assertEquals(
+    isNewerVersion({ id: "b", created_at: 1 }, { id: "a", created_at: 1 }),
+    false,
+  );
+});
+
+Deno.test("LatestVersions - superseded versions are detected", async () => {
+  const redis = await setup();
+  const versions = new LatestVersions(redis);
+
+  try {
+    // Nothing cached, and nothing stored
+    assertEquals(
+      await versions.update(ADDRESS, { id: "b", created_at: 2 }),
+      undefined,
+    );
+    assertEquals(
+      await versions.update(ADDRESS, { id: "b", created_at: 2 }, null),
+      true,
+    );
+
+    // The cached version is compared without a lookup
+    assertEquals(
+      await versions.update(ADDRESS, { id: "a", created_at: 1 }),
+      false,
+    );
+    assertEquals(
+      await versions.update(ADDRESS, { id: "c", created_at: 3 }),
+      true,
+    );
+    assertEquals(
+      await versions.update(ADDRESS, { id: "b", created_at: 2 }),
+      false,
+    );
+  } finally {
+    await cleanup(redis);
+  }
+});
+
+Deno.test("LatestVersions - the stored version seeds the cache", async () => {
+  const redis = await setup();
+  const versions = new LatestVersions(redis);
+
+  try {
+    const stored = { id: "b", created_at: 2 };
+    assertEquals(
+      await versions.update(ADDRESS, { id: "a", created_at: 1 }, stored),
+      false,
+    );
+
+    // The stored version stays cached after a superseded version
+    assertEquals(
+      await versions.update(ADDRESS, { id: "a", created_at: 2 }),
+      true,
+    );
+    assertEquals(
+      await versions.update(ADDRESS, { id: "b", created_at: 2 }),
+      false,
+    );
+  } finally {
+    await cleanup(redis);
+  }
+});
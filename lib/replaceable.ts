@@ -0,0 +1,121 @@
+/**
+ * Latest versions of replaceable and addressable events (NIP-01)
+ *
+ * Storage only keeps the latest version of each replaceable event address,
+ * so relay workers track the latest version too, and don't broadcast versions
+ * that arrive after a newer one. The latest `(created_at, id)` of an address is
+ * cached in Redis, and seeded from storage when it isn't cached.
+ *
+ * Redis Keys:
+ * - `nostr:latest:{address}` - Latest version of an address (hash)
+ */
+
+import type { NostrEvent } from "@nostrify/nostrify";
+import type { RedisClientType } from "redis";
+
+/**
+ * A version of an event address, ordered by `created_at` then `id`
+ */
+export interface EventVersion {
+  id: string;
+  created_at: number;
+}
+
+export function isReplaceableKind(kind: number): boolean {
+  return (kind >= 10000 && kind < 20000) || kind === 0 || kind === 3;
+}
+
+export function isAddressableKind(kind: number): boolean {
+  return kind >= 30000 && kind < 40000;
+}
+
+/**
+ * Get the address of a replaceable or addressable event
+ * - Replaceable events: `kind:pubkey:`
+ * - Addressable events: `kind:pubkey:d-tag`
+ * @returns undefined for other events
+ */
+export function getEventAddress(event: NostrEvent): string | undefined {
+  if (isAddressableKind(event.kind)) {
+    const dTag = event.tags.find(([name]) => name === "d")?.[1] ?? "";
+    return `${event.kind}:${event.pubkey}:${dTag}`;
+  }
+  if (isReplaceableKind(event.kind)) {
+    return `${event.kind}:${event.pubkey}:`;
+  }
+  return undefined;
+}
+
+/**
+ * Check whether a version supersedes another
+ * The newer version wins, and the lower ID if both were created at once.
+ */
+export function isNewerVersion(
+  version: EventVersion,
+  other: EventVersion,
+): boolean {
+  if (version.created_at !== other.created_at) {
+    return version.created_at > other.created_at;
+  }
+  return version.id < other.id;
+}
+
+// Records the version if it's the latest, compared to the cached version or,
+// if none, the stored version given in ARGV[3..4]
+// Returns 1 if it's the latest, 0 if superseded, -1 if nothing to compare to
+const UPDATE_SCRIPT = `
+local current = redis.call("HMGET", KEYS[1], "created_at", "id")
+local createdAt = tonumber(current[1])
+local id = current[2]
+if not createdAt then
+  if ARGV[3] == "unknown" then
+    return -1
+  end
+  createdAt = tonumber(ARGV[3])
+  id = ARGV[4]
+end
+
+local newCreatedAt = tonumber(ARGV[1])
+local latest = not createdAt or newCreatedAt > createdAt or
+  (newCreatedAt == createdAt and ARGV[2] < id)
+if latest then
+  createdAt = newCreatedAt
+  id = ARGV[2]
+end
+
+redis.call("HSET", KEYS[1], "created_at", createdAt, "id", id)
+redis.call("EXPIRE", KEYS[1], ARGV[5])
+return latest and 1 or 0
+`;
+
+export class LatestVersions {
+  constructor(
+    private redis: RedisClientType,
+    private ttlSeconds = 86400,
+  ) {}
+
+  /**
+   * Record a version of an address if it's the latest one
+   * @param stored - The latest stored version, or null if none is stored, used
+   * when no version is cached. Omit it to look it up only when needed.
+   * @returns Whether the version is the latest, or undefined if no version is
+   * cached and `stored` was omitted
+   */
+  async update(
+    address: string,
+    version: EventVersion,
+    stored?: EventVersion | null,
+  ): Promise<boolean | undefined> {
+    const result = await this.redis.eval(UPDATE_SCRIPT, {
+      keys: [`nostr:latest:${address}`],
+      arguments: [
+        version.created_at.toString(),
+        version.id,
+        stored === undefined ? "unknown" : stored?.created_at.toString() ?? "",
+        stored?.id ?? "",
+        this.ttlSeconds.toString(),
+      ],
+    }) as number;
+    return result === -1 ? undefined : result === 1;
+  }
+}
@@ -0,0 +1,80 @@
+import { assertEquals } from "@std/assert";
+import { createClient as createRedisClient, type RedisClientType } from "redis";
+import {
+  createConnId,
+  decodeResponse,
+  encodeResponse,
+  getServerId,
+  ResponsePublisher,
+  ResponseRouter,
+} from "./responses.ts";
+
+// Helper to create a fresh Redis connection
+async function connect(): Promise<RedisClientType> {
+  const redis: RedisClientType = createRedisClient({
+    url: Deno.env.get("REDIS_URL") || "redis://localhost:6379",
+  });
+  await redis.connect();
+  return redis;
+}
+
+Deno.test("createConnId - embeds the server ID", () => {
+  const connId = createConnId("server1");
+
+  assertEquals(getServerId(connId), "server1");
+  assertEquals(connId.includes(":"), false);
+  assertEquals(connId === createConnId("server1"), false);
+});
+
+Deno.test("encodeResponse - round trips through decodeResponse", () => {
+  const msg = ["EVENT", "sub 1", { content: "hello world" }];
+  const encoded = encodeResponse("server1.conn", msg);
+
+  assertEquals(decodeResponse(encoded), {
+    connId: "server1.conn",
+    data: JSON.stringify(msg),
+  });
+  assertEquals(decodeResponse("invalid"), undefined);
+});
+
+Deno.test("ResponseRouter - delivers published responses in order", async () => {
+  const redis = await connect();
+  const subscriber = await connect();
+
+  const serverId = crypto.randomUUID().slice(0, 8);
+  const router = new ResponseRouter(subscriber, serverId);
+  const publisher = new ResponsePublisher(redis);
+
+  const connId = createConnId(serverId);
+  const otherConnId = createConnId(serverId);
+  const received: string[] = [];
+
+  try {
+    await router.start();
+    router.register(connId, (data) => received.push(data));
+    assertEquals(router.connIds(), [connId]);
+
+    for (let i = 0; i < 10; i++) {
+      await publisher.send(connId, ["NOTICE", `message ${i}`]);
+    }
+    // Responses for unregistered connections are dropped
+    await publisher.send(otherConnId, ["NOTICE", "dropped"]);
+
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    assertEquals(
+      received,
+      Array.from(
+        { length: 10 },
+        (_, i) => JSON.stringify(["NOTICE", `message ${i}`]),
+      ),
+    );
+
+    router.unregister(connId);
+    assertEquals(router.connIds(), []);
+  } finally {
+    await router.stop();
+    await subscriber.quit();
+    await redis.quit();
+  }
+});
@@ -0,0 +1,131 @@
+/**
+ * Push-based delivery of relay responses to WebSocket connections
+ *
+ * Each server process has its own ID, which is embedded in the IDs of the
+ * connections it accepts. Relay workers publish responses to the owning
+ * server's Redis Pub/Sub channel, and the server hands them to the local socket,
+ * so idle connections cost no Redis traffic.
+ *
+ * Redis delivers the messages of one client connection in the order they were
+ * published, so responses sent by a worker reach the socket in the same order.
+ *
+ * Redis Channels:
+ * - `nostr:responses:{serverId}` - Responses for the connections of a server
+ */
+
+import type { RedisClientType } from "redis";
+
+/**
+ * Create a connection ID owned by a server process
+ * IDs must not contain colons, which separate connection and subscription IDs
+ */
+export function createConnId(serverId: string): string {
+  return `${serverId}.${crypto.randomUUID()}`;
+}
+
+/**
+ * Get the ID of the server process owning a connection
+ */
+export function getServerId(connId: string): string {
+  return connId.slice(0, connId.indexOf("."));
+}
+
+function responseChannel(serverId: string): string {
+  return `nostr:responses:${serverId}`;
+}
+
+/**
+ * Encode a response as `{connId} {json}`, so the server can forward the JSON
+ * without parsing it
+ */
+export function encodeResponse(connId: string, msg: unknown): string {
+  return `${connId} ${JSON.stringify(msg)}`;
+}
+
+export function decodeResponse(
+  message: string,
+): { connId: string; data: string } | undefined {
+  const separator = message.indexOf(" ");
+  if (separator === -1) {
+    return undefined;
+  }
+  return {
+    connId: message.slice(0, separator),
+    data: message.slice(separator + 1),
+  };
+}
+
+/**
+ * Publishes responses to the server owning each connection (relay workers)
+ */
+export class ResponsePublisher {
+  constructor(private redis: RedisClientType) {}
+
+  async send(connId: string, msg: unknown): Promise<void> {
+    await this.redis.publish(
+      responseChannel(getServerId(connId)),
+      encodeResponse(connId, msg),
+    );
+  }
+}
+
+/**
+ * Routes published responses to the local sockets of a server process
+ * Requires a dedicated Redis connection, since subscribed connections can't
+ * run other commands
+ */
+export class ResponseRouter {
+  private connections = new Map<string, (data: string) => void>();
+
+  constructor(
+    private subscriber: RedisClientType,
+    private serverId: string,
+  ) {}
+
+  async start(): Promise<void> {
+    await this.subscriber.subscribe(
+      responseChannel(this.serverId),
+      (message: string) => this.route(message),
+    );
+  }
+
+  async stop(): Promise<void> {
+    await this.subscriber.unsubscribe(responseChannel(this.serverId));
+  }
+
+  /**
+   * Register a local connection and the function delivering its responses
+   */
+  register(connId: string, deliver: (data: string) => void): void {
+    this.connections.set(connId, deliver);
+  }
+
+  unregister(connId: string): void {
+    this.connections.delete(connId);
+  }
+
+  /**
+   * IDs of the connections currently registered with this server
+   */
+  connIds(): string[] {
+    return [...this.connections.keys()];
+  }
+
+  /**
+   * Deliver a serialized message to a local connection
+   * Messages for closed connections are dropped.
+   */
+  deliver(connId: string, data: string): void {
+    this.connections.get(connId)?.(data);
+  }
+
+  private route(message: string): void {
+    const response = decodeResponse(message);
+    if (!response) {
+      console.error("Invalid response message:", message.slice(0, 100));
+      return;
+    }
+
+    this.deliver(response.connId, response.data);
+  }
+}
@@ -0,0 +1,61 @@
+import { assertEquals } from "@std/assert";
+import { createClient as createRedisClient, type RedisClientType } from "redis";
+import { SeenEvents } from "./seen-events.ts";
+
+const TEST_ID = "e".repeat(64);
+
+// Helper to create a fresh Redis connection
+async function setup() {
+  const redis: RedisClientType = createRedisClient({
+    url: Deno.env.get("REDIS_URL") || "redis://localhost:6379",
+  });
+  await redis.connect();
+  await redis.del(`nostr:seen:${TEST_ID}`);
+  return redis;
+}
+
+Deno.test("SeenEvents - remembers accepted events", async () => {
+  const redis = await setup();
+  const seen = new SeenEvents(redis);
+
+  try {
+    assertEquals(await seen.has(TEST_ID), false);
+    assertEquals(await seen.add(TEST_ID), true);
+    assertEquals(await seen.has(TEST_ID), true);
+
+    // A concurrent worker accepting the same event loses
+    assertEquals(await seen.add(TEST_ID), false);
+  } finally {
+    await redis.del(`nostr:seen:${TEST_ID}`);
+    await redis.quit();
+  }
+});
+
+Deno.test("SeenEvents - forgotten events can be accepted again", async () => {
+  const redis = await setup();
+  const seen = new SeenEvents(redis);
+
+  try {
+    await seen.add(TEST_ID);
+    await seen.remove(TEST_ID);
+    assertEquals(await seen.has(TEST_ID), false);
+    assertEquals(await seen.add(TEST_ID), true);
+  } finally {
+    await redis.del(`nostr:seen:${TEST_ID}`);
+    await redis.quit();
+  }
+});
+
+Deno.test("SeenEvents - IDs expire", async () => {
+  const redis = await setup();
+  const seen = new SeenEvents(redis, 1);
+
+  try {
+    await seen.add(TEST_ID);
+    await new Promise((resolve) => setTimeout(resolve, 1100));
+    assertEquals(await seen.has(TEST_ID), false);
+  } finally {
+    await redis.del(`nostr:seen:${TEST_ID}`);
+    await redis.quit();
+  }
+});
@@ -0,0 +1,55 @@
+/**
+ * Recently accepted event IDs, for rejecting republished events as duplicates
+ *
+ * Clients publishing to many relays (such as outbox clients) republish the
+ * same events constantly. Checking the ID before verifying the signature lets
+ * relay workers answer those with a `duplicate:` OK without verifying,
+ * storing or broadcasting them again.
+ *
+ * IDs are remembered for `ttlSeconds`. An event republished after that is
+ * handled as new, and storage keeps a single copy since events are indexed by
+ * their ID.
+ *
+ * Redis Keys:
+ * - `nostr:seen:{id}` - Marker of a recently accepted event (string)
+ */
+
+import type { RedisClientType } from "redis";
+
+function seenKey(id: string): string {
+  return `nostr:seen:${id}`;
+}
+
+export class SeenEvents {
+  constructor(
+    private redis: RedisClientType,
+    private ttlSeconds = 3600,
+  ) {}
+
+  /**
+   * Check whether an event was accepted recently
+   */
+  async has(id: string): Promise<boolean> {
+    return await this.redis.exists(seenKey(id)) === 1;
+  }
+
+  /**
+   * Remember an accepted event
+   * @returns false if the event was already remembered, e.g. because another
+   * worker accepted it concurrently
+   */
+  async add(id: string): Promise<boolean> {
+    const result = await this.redis.set(seenKey(id), "1", {
+      NX: true,
+      EX: this.ttlSeconds,
+    });
+    return result === "OK";
+  }
+
+  /**
+   * Forget an event that couldn't be processed, so it can be published again
+   */
+  async remove(id: string): Promise<void> {
+    await this.redis.del(seenKey(id));
+  }
+}
@@ -0,0 +1,42 @@
+import { assertEquals } from "@std/assert";
+import { createClient as createRedisClient, type RedisClientType } from "redis";
+import { ServerRegistry } from "./servers.ts";
+
+// Helper to create a fresh Redis connection
+async function setup() {
+  const redis: RedisClientType = createRedisClient({
+    url: Deno.env.get("REDIS_URL") || "redis://localhost:6379",
+  });
+  await redis.connect();
+  return redis;
+}
+
+Deno.test("ServerRegistry - connections of stopped servers are taken once", async () => {
+  const redis = await setup();
+
+  const serverId = crypto.randomUUID().slice(0, 8);
+  const stopped = new ServerRegistry(redis, serverId);
+  const running = new ServerRegistry(redis, crypto.randomUUID().slice(0, 8));
+
+  try {
+    await stopped.heartbeat();
+    await running.heartbeat();
+    await stopped.addConnection(`${serverId}.conn1`);
+    await stopped.addConnection(`${serverId}.conn2`);
+    await stopped.removeConnection(`${serverId}.conn2`);
+
+    assertEquals((await running.findDeadServers()).includes(serverId), false);
+
+    await stopped.stop();
+    assertEquals((await running.findDeadServers()).includes(serverId), true);
+
+    assertEquals(await running.takeConnections(serverId), [
+      `${serverId}.conn1`,
+    ]);
+    assertEquals(await running.takeConnections(serverId), []);
+    assertEquals((await running.findDeadServers()).includes(serverId), false);
+  } finally {
+    await running.stop();
+    await redis.quit();
+  }
+});
@@ -0,0 +1,104 @@
+/**
+ * Liveness of server processes and their open connections
+ *
+ * Connection state in Redis (subscriptions, auth state) has no TTL, so idle
+ * connections cost no Redis calls. Each server removes the state of its
+ * connections when they close, and keeps a single heartbeat key alive while
+ * it runs. If a server stops without cleaning up, another server finds its
+ * heartbeat expired and removes the state of the connections it left open.
+ *
+ * Relay workers only record state for connections that are still open, so
+ * state written while a connection closes isn't left behind.
+ *
+ * Redis Keys:
+ * - `nostr:servers` - IDs of the running servers (set)
+ * - `nostr:server:{serverId}` - Heartbeat of a server, expiring if it stops
+ * - `nostr:server:{serverId}:conns` - Open connections of a server (set)
+ */
+
+import type { RedisClientType } from "redis";
+
+const SERVERS_KEY = "nostr:servers";
+
+function heartbeatKey(serverId: string): string {
+  return `nostr:server:${serverId}`;
+}
+
+/**
+ * Get the key of the set of open connections of a server
+ */
+export function serverConnectionsKey(serverId: string): string {
+  return `nostr:server:${serverId}:conns`;
+}
+
+// Claims a dead server, so only one server cleans up after it, and returns its
+// open connections
+const TAKE_CONNECTIONS_SCRIPT = `
+if redis.call("SREM", KEYS[1], ARGV[1]) == 0 then
+  return {}
+end
+local connIds = redis.call("SMEMBERS", KEYS[2])
+redis.call("DEL", KEYS[2])
+return connIds
+`;
+
+export class ServerRegistry {
+  constructor(
+    private redis: RedisClientType,
+    private serverId: string,
+    private ttlSeconds = 60,
+  ) {}
+
+  /**
+   * Mark this server as running for another `ttlSeconds`
+   */
+  async heartbeat(): Promise<void> {
+    const pipeline = this.redis.multi();
+    pipeline.set(heartbeatKey(this.serverId), Date.now().toString(), {
+      EX: this.ttlSeconds,
+    });
+    pipeline.sAdd(SERVERS_KEY, this.serverId);
+    await pipeline.exec();
+  }
+
+  /**
+   * Stop the heartbeat, so other servers clean up after this one right away
+   */
+  async stop(): Promise<void> {
+    await this.redis.del(heartbeatKey(this.serverId));
+  }
+
+  async addConnection(connId: string): Promise<void> {
+    await this.redis.sAdd(serverConnectionsKey(this.serverId), connId);
+  }
+
+  async removeConnection(connId: string): Promise<void> {
+    await this.redis.sRem(serverConnectionsKey(this.serverId), connId);
+  }
+
+  /**
+   * Get the IDs of the servers whose heartbeat expired
+   */
+  async findDeadServers(): Promise<string[]> {
+    const serverIds = await this.redis.sMembers(SERVERS_KEY);
+    if (serverIds.length === 0) return [];
+
+    const pipeline = this.redis.multi();
+    for (const serverId of serverIds) {
+      pipeline.exists(heartbeatKey(serverId));
+    }
+    const results = await pipeline.exec() as unknown as number[];
+    return serverIds.filter((_, i) => results[i] === 0);
+  }
+
+  /**
+   * Take the connections a dead server left open, to clean up their state
+   * Returns no connections if another server already took them.
+   */
+  async takeConnections(serverId: string): Promise<string[]> {
+    return await this.redis.eval(TAKE_CONNECTIONS_SCRIPT, {
+      keys: [SERVERS_KEY, serverConnectionsKey(serverId)],
+      arguments: [serverId],
+    }) as string[];
+  }
+}
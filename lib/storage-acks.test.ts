@@ -0,0 +1,75 @@
+import { assertEquals } from "@std/assert";
+import { createClient as createRedisClient, type RedisClientType } from "redis";
+import {
+  storageAckChannel,
+  StorageAckPublisher,
+  StorageAcks,
+} from "./storage-acks.ts";
+
+// Helper to create a fresh Redis connection
+async function connect(): Promise<RedisClientType> {
+  const redis: RedisClientType = createRedisClient({
+    url: Deno.env.get("REDIS_URL") || "redis://localhost:6379",
+  });
+  await redis.connect();
+  return redis;
+}
+
+// Helper to start waiting for the storage outcomes of a relay worker
+async function setup() {
+  const redis = await connect();
+  const subscriber = await connect();
+
+  const acks = new StorageAcks(
+    subscriber,
+    storageAckChannel(crypto.randomUUID().slice(0, 8)),
+  );
+  await acks.start();
+  const publisher = new StorageAckPublisher(redis);
+
+  const cleanup = async () => {
+    await acks.stop();
+    await subscriber.quit();
+    await redis.quit();
+  };
+
+  return { acks, publisher, cleanup };
+}
+
+Deno.test("StorageAcks - waits for the outcome of a queued event", async () => {
+  const { acks, publisher, cleanup } = await setup();
+
+  try {
+    // The storage worker reports the event once it's queued
+    const outcome = await acks.wait("event1", 1000, async () => {
+      await publisher.publish(acks.channel, {
+        id: "event1",
+        stored: false,
+        reason: "mapper_parsing_exception",
+      });
+    });
+
+    assertEquals(outcome, {
+      id: "event1",
+      stored: false,
+      reason: "mapper_parsing_exception",
+    });
+  } finally {
+    await cleanup();
+  }
+});
+
+Deno.test("StorageAcks - gives up after the timeout", async () => {
+  const { acks, publisher, cleanup } = await setup();
+
+  try {
+    const outcome = await acks.wait("event1", 100, async () => {
+      // Outcomes of other events are ignored
+      await publisher.publish(acks.channel, { id: "event2", stored: true });
+    });
+
+    assertEquals(outcome, undefined);
+  } finally {
+    await cleanup();
+  }
+});
@@ -0,0 +1,97 @@
+/**
+ * Storage confirmations for durable acknowledgements
+ *
+ * In durable acknowledgement mode, relay workers queue events with the
+ * channel of their own process, and storage workers publish on it whether
+ * each of those events was stored, so the OK is only sent once it was.
+ * Events queued again after a rejection are only reported once stored or
+ * dead-lettered.
+ *
+ * Redis Channels:
+ * - `nostr:events:stored:{workerId}` - Storage outcomes of the events queued
+ *   by a relay worker (JSON)
+ */
+
+import type { RedisClientType } from "redis";
+
+/**
+ * Whether an event was stored, with the reason if it wasn't
+ */
+export interface StorageOutcome {
+  id: string;
+  stored: boolean;
+  reason?: string;
+}
+
+/**
+ * Get the channel storage outcomes for a relay worker are published on
+ */
+export function storageAckChannel(workerId: string): string {
+  return `nostr:events:stored:${workerId}`;
+}
+
+/**
+ * Publishes storage outcomes (storage workers)
+ */
+export class StorageAckPublisher {
+  constructor(private redis: RedisClientType) {}
+
+  async publish(channel: string, outcome: StorageOutcome): Promise<void> {
+    await this.redis.publish(channel, JSON.stringify(outcome));
+  }
+}
+
+/**
+ * Waits for the storage outcomes of events queued by a relay worker
+ * Requires a dedicated Redis connection, since subscribed connections can't
+ * run other commands
+ */
+export class StorageAcks {
+  // Resolvers of the events waiting for their outcome, by event ID
+  private pending = new Map<string, (outcome: StorageOutcome) => void>();
+
+  constructor(
+    private subscriber: RedisClientType,
+    readonly channel: string,
+  ) {}
+
+  async start(): Promise<void> {
+    await this.subscriber.subscribe(this.channel, (message: string) => {
+      try {
+        const outcome = JSON.parse(message) as StorageOutcome;
+        this.pending.get(outcome.id)?.(outcome);
+      } catch (error) {
+        console.error("Invalid storage outcome:", error);
+      }
+    });
+  }
+
+  async stop(): Promise<void> {
+    await this.subscriber.unsubscribe(this.channel);
+  }
+
+  /**
+   * Queue an event and wait for its storage outcome
+   * @param queue - Queues the event with this worker's channel
+   * @returns The outcome, or undefined if none arrived within `timeoutMs`
+   */
+  async wait(
+    id: string,
+    timeoutMs: number,
+    queue: () => Promise<unknown>,
+  ): Promise<StorageOutcome | undefined> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const outcome = new Promise<StorageOutcome | undefined>((resolve) => {
+      this.pending.set(id, resolve);
+      timer = setTimeout(() => resolve(undefined), timeoutMs);
+    });
+
+    try {
+      await queue();
+      return await outcome;
+    } finally {
+      clearTimeout(timer);
+      this.pending.delete(id);
+    }
+  }
+}
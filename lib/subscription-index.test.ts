@@ -0,0 +1,258 @@
+import { assertEquals } from "@std/assert";
+import type { NostrEvent, NostrFilter } from "@nostrify/nostrify";
+import { eventMatchesFilter, SubscriptionIndex } from "./subscription-index.ts";
+
+// Helper to create test events
+function createTestEvent(overrides: Partial<NostrEvent> = {}): NostrEvent {
+  return {
+    id: crypto.randomUUID().replace(/-/g, ""),
+    pubkey: "0".repeat(64),
+    created_at: Math.floor(Date.now() / 1000),
+    kind: 1,
+    tags: [],
+    content: "test event",
+    sig: "0".repeat(128),
+    ...overrides,
+  };
+}
+
+// Helper to index subscriptions of local connections
+function createIndex(
+  subscriptions: [string, string, NostrFilter[]][],
+): SubscriptionIndex {
+  const index = new SubscriptionIndex();
+  for (const [connId, subId, filters] of subscriptions) {
+    index.addConnection(connId);
+    index.add(connId, subId, filters);
+  }
+  return index;
+}
+
+// Helper to get the matches of an event as `{connId}:{subId}` strings
+function match(index: SubscriptionIndex, event: NostrEvent): string[] {
+  return index.match(event).map(({ connId, subId }) => `${connId}:${subId}`)
+    .sort();
+}
+
+Deno.test("SubscriptionIndex - find matching subscriptions by kind", () => {
+  const index = createIndex([
+    ["conn1", "sub1", [{ kinds: [1] }]],
+    ["conn2", "sub2", [{ kinds: [3] }]],
+    ["conn3", "sub3", [{ kinds: [1, 3] }]],
+  ]);
+
+  const event = createTestEvent({ kind: 1 });
+
+  assertEquals(match(index, event), ["conn1:sub1", "conn3:sub3"]);
+});
+
+Deno.test("SubscriptionIndex - find matching subscriptions by author", () => {
+  const author1 = "a".repeat(64);
+  const author2 = "b".repeat(64);
+
+  const index = createIndex([
+    ["conn1", "sub1", [{ authors: [author1] }]],
+    ["conn2", "sub2", [{ authors: [author2] }]],
+    ["conn3", "sub3", [{ authors: [author1, author2] }]],
+  ]);
+
+  const event = createTestEvent({ pubkey: author1 });
+
+  assertEquals(match(index, event), ["conn1:sub1", "conn3:sub3"]);
+});
+
+Deno.test("SubscriptionIndex - find matching subscriptions by tags", () => {
+  const eventId = "e".repeat(64);
+
+  const index = createIndex([
+    ["conn1", "sub1", [{ "#e": [eventId] }]],
+    ["conn2", "sub2", [{ "#e": ["other"] }]],
+  ]);
+
+  const event = createTestEvent({
+    tags: [["e", eventId], ["p", "pubkey"]],
+  });
+
+  assertEquals(match(index, event), ["conn1:sub1"]);
+});
+
+Deno.test("SubscriptionIndex - find matching subscriptions by ID and tags together", () => {
+  const event = createTestEvent({ tags: [["t", "nostr"], ["p", "abc"]] });
+
+  const index = createIndex([
+    ["conn1", "sub1", [{ ids: [event.id] }]],
+    ["conn2", "sub2", [{ "#t": ["nostr"], "#p": ["abc"] }]],
+    ["conn3", "sub3", [{ "#t": ["nostr"], "#p": ["def"] }]],
+    ["conn4", "sub4", [{ ids: ["other"] }]],
+  ]);
+
+  assertEquals(match(index, event), ["conn1:sub1", "conn2:sub2"]);
+});
+
+Deno.test("SubscriptionIndex - complex filter matching (AND conditions)", () => {
+  const author = "a".repeat(64);
+
+  // Subscription requires both kind:1 AND author
+  const index = createIndex([
+    ["conn1", "sub1", [{ kinds: [1], authors: [author] }]],
+  ]);
+
+  // Event matches both conditions
+  assertEquals(
+    index.match(createTestEvent({ kind: 1, pubkey: author })).length,
+    1,
+  );
+
+  // Event matches only kind
+  assertEquals(
+    index.match(createTestEvent({ kind: 1, pubkey: "b".repeat(64) })).length,
+    0,
+  );
+
+  // Event matches only author
+  assertEquals(
+    index.match(createTestEvent({ kind: 3, pubkey: author })).length,
+    0,
+  );
+});
+
+Deno.test("SubscriptionIndex - multiple filters (OR conditions)", () => {
+  const index = createIndex([
+    ["conn1", "sub1", [{ kinds: [1] }, { kinds: [3] }]],
+  ]);
+
+  assertEquals(index.match(createTestEvent({ kind: 1 })).length, 1);
+  assertEquals(index.match(createTestEvent({ kind: 3 })).length, 1);
+  assertEquals(index.match(createTestEvent({ kind: 5 })).length, 0);
+});
+
+Deno.test("SubscriptionIndex - conditions of different filters are not combined", () => {
+  const author1 = "a".repeat(64);
+  const author2 = "b".repeat(64);
+
+  const index = createIndex([
+    ["conn1", "sub1", [
+      { kinds: [1], authors: [author1] },
+      { kinds: [3], authors: [author2] },
+    ]],
+  ]);
+
+  const mixed = createTestEvent({ kind: 1, pubkey: author2 });
+  assertEquals(index.match(mixed).length, 0);
+
+  const matching = createTestEvent({ kind: 3, pubkey: author2 });
+  assertEquals(index.match(matching).length, 1);
+});
+
+Deno.test("SubscriptionIndex - time range filtering", () => {
+  const now = Math.floor(Date.now() / 1000);
+
+  const index = createIndex([
+    ["conn1", "sub1", [{ since: now - 3600, until: now + 3600 }]],
+  ]);
+
+  // Event within range
+  assertEquals(index.match(createTestEvent({ created_at: now })).length, 1);
+
+  // Event too old
+  assertEquals(
+    index.match(createTestEvent({ created_at: now - 7200 })).length,
+    0,
+  );
+
+  // Event too new
+  assertEquals(
+    index.match(createTestEvent({ created_at: now + 7200 })).length,
+    0,
+  );
+});
+
+Deno.test("SubscriptionIndex - match all events (no filters)", () => {
+  // Empty filter matches everything
+  const index = createIndex([["conn1", "sub1", [{}]]]);
+
+  assertEquals(match(index, createTestEvent({ kind: 1 })), ["conn1:sub1"]);
+});
+
+Deno.test("SubscriptionIndex - replace and remove subscriptions", () => {
+  const index = createIndex([["conn1", "sub1", [{ kinds: [1] }]]]);
+
+  // Reusing a subscription ID replaces its filters
+  index.add("conn1", "sub1", [{ kinds: [3] }]);
+  assertEquals(index.match(createTestEvent({ kind: 1 })).length, 0);
+  assertEquals(index.match(createTestEvent({ kind: 3 })).length, 1);
+
+  index.remove("conn1", "sub1");
+  assertEquals(index.match(createTestEvent({ kind: 3 })).length, 0);
+  assertEquals(index.getStats().totalSubscriptions, 0);
+});
+
+Deno.test("SubscriptionIndex - closed connections are removed and ignored", () => {
+  const index = createIndex([
+    ["conn1", "sub1", [{ kinds: [1] }]],
+    ["conn1", "sub2", [{}]],
+    ["conn2", "sub3", [{ kinds: [1] }]],
+  ]);
+
+  index.removeConnection("conn1");
+  assertEquals(match(index, createTestEvent({ kind: 1 })), ["conn2:sub3"]);
+
+  // Subscriptions opened after the connection closed aren't indexed
+  index.add("conn1", "sub4", [{}]);
+  assertEquals(match(index, createTestEvent({ kind: 1 })), ["conn2:sub3"]);
+});
+
+Deno.test("SubscriptionIndex - release held events", () => {
+  const index = createIndex([["conn1", "sub1", [{ kinds: [1] }]]]);
+
+  // New subscriptions hold their live events
+  const [subscription] = index.match(createTestEvent());
+  assertEquals(subscription.held, []);
+
+  const sent = createTestEvent();
+  const held = createTestEvent();
+  subscription.held?.push(sent, held);
+
+  assertEquals(index.release("conn1", "sub1", [sent.id]), [held]);
+  assertEquals(subscription.held, undefined);
+
+  // Released subscriptions have nothing left to release
+  assertEquals(index.release("conn1", "sub1"), []);
+});
+
+Deno.test("SubscriptionIndex - keep pubkeys of local connections", () => {
+  const index = createIndex([["conn1", "sub1", [{ kinds: [4] }]]]);
+  const pubkey = "a".repeat(64);
+
+  index.setPubkey("conn1", pubkey);
+  index.setPubkey("conn2", pubkey);
+
+  assertEquals(index.getPubkey("conn1"), pubkey);
+  assertEquals(index.getPubkey("conn2"), undefined);
+
+  index.removeConnection("conn1");
+  assertEquals(index.getPubkey("conn1"), undefined);
+});
+
+Deno.test("SubscriptionIndex - get stats", () => {
+  const index = createIndex([
+    ["conn1", "sub1", [{ kinds: [1] }]],
+    ["conn1", "sub2", [{ kinds: [3] }]],
+    ["conn2", "sub3", [{}]],
+  ]);
+
+  const stats = index.getStats();
+
+  assertEquals(stats.totalConnections, 2);
+  assertEquals(stats.totalSubscriptions, 3);
+  assertEquals(stats.indexSizes.all, 1); // One subscription matches all
+  assertEquals(stats.indexSizes.kind, 2);
+});
+
+Deno.test("eventMatchesFilter - search terms are matched case-insensitively", () => {
+  const event = createTestEvent({ content: "Hello Nostr" });
+
+  assertEquals(eventMatchesFilter(event, { search: "nostr" }), true);
+  assertEquals(eventMatchesFilter(event, { search: "sort:hot hello" }), true);
+  assertEquals(eventMatchesFilter(event, { search: "bitcoin" }), false);
+});
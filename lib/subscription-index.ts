@@ -0,0 +1,327 @@
+/**
+ * In-memory inverted index of the live subscriptions of a server process
+ *
+ * Each filter is indexed under its most selective condition: its event IDs,
+ * else its authors, else the values of its first tag condition, else its kinds.
+ * Filters without any of these are checked against every event. An event only
+ * looks up the index entries of its own ID, author, tags and kind, and the
+ * candidates are then verified against their full filters.
+ *
+ * Only subscriptions of connections added with addConnection() are indexed,
+ * so subscriptions opened by workers after a connection closed are ignored.
+ *
+ * New subscriptions hold their matching live events until release() is called
+ * after EOSE, so clients never receive live events before historical ones.
+ *
+ * The NIP-42 authenticated pubkeys of local connections are kept alongside,
+ * so private events are matched without waiting on Redis.
+ */
+
+import type { NostrEvent, NostrFilter } from "@nostrify/nostrify";
+
+/**
+ * Live subscription of a local connection
+ */
+export interface IndexedSubscription {
+  connId: string;
+  subId: string;
+  filters: NostrFilter[];
+  // Live events held until the subscription is released, if not yet released
+  held?: NostrEvent[];
+}
+
+// Index entry of filters without ID, author, tag or kind conditions
+const MATCH_ALL = "*";
+
+/**
+ * Check if an event matches a single filter
+ * All conditions in a filter must match (AND)
+ */
+export function eventMatchesFilter(
+  event: NostrEvent,
+  filter: NostrFilter,
+): boolean {
+  // Check IDs
+  if (filter.ids && filter.ids.length > 0) {
+    if (!filter.ids.includes(event.id)) {
+      return false;
+    }
+  }
+
+  // Check authors
+  if (filter.authors && filter.authors.length > 0) {
+    if (!filter.authors.includes(event.pubkey)) {
+      return false;
+    }
+  }
+
+  // Check kinds
+  if (filter.kinds && filter.kinds.length > 0) {
+    if (!filter.kinds.includes(event.kind)) {
+      return false;
+    }
+  }
+
+  // Check since
+  if (filter.since !== undefined) {
+    if (event.created_at < filter.since) {
+      return false;
+    }
+  }
+
+  // Check until
+  if (filter.until !== undefined) {
+    if (event.created_at > filter.until) {
+      return false;
+    }
+  }
+
+  // Check tag filters
+  for (const [key, values] of Object.entries(filter)) {
+    if (key.startsWith("#") && Array.isArray(values) && values.length > 0) {
+      const tagName = key.slice(1);
+      const eventTagValues = event.tags
+        .filter((tag) => tag[0] === tagName)
+        .map((tag) => tag[1])
+        .filter((v) => v !== undefined);
+
+      // At least one value must match
+      const hasMatch = values.some((filterValue) =>
+        eventTagValues.includes(filterValue)
+      );
+
+      if (!hasMatch) {
+        return false;
+      }
+    }
+  }
+
+  // Check search (NIP-50) - simplified, just check if content contains search terms
+  if (filter.search) {
+    const searchLower = filter.search.toLowerCase();
+    const contentLower = event.content.toLowerCase();
+
+    // Remove sort: prefix if present
+    const cleanSearch = searchLower.replace(/^sort:\w+\s*/, "").trim();
+
+    if (cleanSearch && !contentLower.includes(cleanSearch)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Check if an event matches any of the filters (OR)
+ */
+export function eventMatchesFilters(
+  event: NostrEvent,
+  filters: NostrFilter[],
+): boolean {
+  return filters.some((filter) => eventMatchesFilter(event, filter));
+}
+
+/**
+ * Get the index entries of a filter, under its most selective condition
+ */
+function filterEntries(filter: NostrFilter): string[] {
+  if (filter.ids && filter.ids.length > 0) {
+    return filter.ids.map((id) => `id:${id}`);
+  }
+  if (filter.authors && filter.authors.length > 0) {
+    return filter.authors.map((author) => `author:${author}`);
+  }
+  for (const [key, values] of Object.entries(filter)) {
+    if (key.startsWith("#") && Array.isArray(values) && values.length > 0) {
+      return values.map((value) => `tag:${key.slice(1)}:${value}`);
+    }
+  }
+  if (filter.kinds && filter.kinds.length > 0) {
+    return filter.kinds.map((kind) => `kind:${kind}`);
+  }
+  return [MATCH_ALL];
+}
+
+/**
+ * Get the index entries an event is looked up under
+ */
+function eventEntries(event: NostrEvent): string[] {
+  return [
+    `id:${event.id}`,
+    `author:${event.pubkey}`,
+    ...event.tags
+      .filter((tag) => tag.length >= 2)
+      .map(([tagName, tagValue]) => `tag:${tagName}:${tagValue}`),
+    `kind:${event.kind}`,
+    MATCH_ALL,
+  ];
+}
+
+export class SubscriptionIndex {
+  // Subscriptions by `{connId}:{subId}`
+  private subscriptions = new Map<string, IndexedSubscription>();
+  // Subscription keys by index entry
+  private entries = new Map<string, Set<string>>();
+  // Subscription IDs by local connection
+  private connections = new Map<string, Set<string>>();
+  // Authenticated pubkeys by local connection
+  private pubkeys = new Map<string, string>();
+
+  /**
+   * Start indexing the subscriptions of a local connection
+   */
+  addConnection(connId: string): void {
+    if (!this.connections.has(connId)) {
+      this.connections.set(connId, new Set());
+    }
+  }
+
+  /**
+   * Remove a closed connection and all its subscriptions
+   */
+  removeConnection(connId: string): void {
+    for (const subId of this.connections.get(connId) ?? []) {
+      this.remove(connId, subId);
+    }
+    this.connections.delete(connId);
+    this.pubkeys.delete(connId);
+  }
+
+  /**
+   * Record the authenticated pubkey of a local connection
+   * Ignored if the connection isn't local or already closed.
+   */
+  setPubkey(connId: string, pubkey: string): void {
+    if (this.connections.has(connId)) {
+      this.pubkeys.set(connId, pubkey);
+    }
+  }
+
+  getPubkey(connId: string): string | undefined {
+    return this.pubkeys.get(connId);
+  }
+
+  /**
+   * Index a subscription, replacing any subscription with the same ID
+   * Ignored if the connection isn't local or already closed. The subscription
+   * holds its live events until it's released.
+   */
+  add(connId: string, subId: string, filters: NostrFilter[]): void {
+    const subIds = this.connections.get(connId);
+    if (!subIds) {
+      return;
+    }
+
+    this.remove(connId, subId);
+
+    const key = `${connId}:${subId}`;
+    this.subscriptions.set(key, { connId, subId, filters, held: [] });
+    subIds.add(subId);
+
+    for (const filter of filters) {
+      for (const entry of filterEntries(filter)) {
+        let keys = this.entries.get(entry);
+        if (!keys) {
+          keys = new Set();
+          this.entries.set(entry, keys);
+        }
+        keys.add(key);
+      }
+    }
+  }
+
+  /**
+   * Remove a subscription from the index
+   */
+  remove(connId: string, subId: string): void {
+    const key = `${connId}:${subId}`;
+    const subscription = this.subscriptions.get(key);
+    if (!subscription) {
+      return;
+    }
+
+    for (const filter of subscription.filters) {
+      for (const entry of filterEntries(filter)) {
+        const keys = this.entries.get(entry);
+        keys?.delete(key);
+        if (keys?.size === 0) {
+          this.entries.delete(entry);
+        }
+      }
+    }
+
+    this.subscriptions.delete(key);
+    this.connections.get(connId)?.delete(subId);
+  }
+
+  /**
+   * Stop holding the live events of a subscription
+   * Returns the held events, except those in `skipIds` (already sent in the
+   * historical results).
+   */
+  release(
+    connId: string,
+    subId: string,
+    skipIds: string[] = [],
+  ): NostrEvent[] {
+    const subscription = this.subscriptions.get(`${connId}:${subId}`);
+    if (!subscription?.held) {
+      return [];
+    }
+
+    const skip = new Set(skipIds);
+    const held = subscription.held.filter((event) => !skip.has(event.id));
+    delete subscription.held;
+    return held;
+  }
+
+  /**
+   * Find the subscriptions matching an event
+   */
+  match(event: NostrEvent): IndexedSubscription[] {
+    const candidates = new Set<string>();
+    for (const entry of eventEntries(event)) {
+      for (const key of this.entries.get(entry) ?? []) {
+        candidates.add(key);
+      }
+    }
+
+    const matches: IndexedSubscription[] = [];
+    for (const key of candidates) {
+      const subscription = this.subscriptions.get(key);
+      if (subscription && eventMatchesFilters(event, subscription.filters)) {
+        matches.push(subscription);
+      }
+    }
+    return matches;
+  }
+
+  /**
+   * Get statistics about the indexed subscriptions
+   * Index sizes count the entries of filters indexed under each kind of condition.
+   */
+  getStats(): {
+    totalSubscriptions: number;
+    totalConnections: number;
+    indexSizes: Record<string, number>;
+  } {
+    const indexSizes: Record<string, number> = {
+      all: 0,
+      id: 0,
+      author: 0,
+      tag: 0,
+      kind: 0,
+    };
+    for (const [entry, keys] of this.entries) {
+      const dimension = entry === MATCH_ALL ? "all" : entry.split(":")[0];
+      indexSizes[dimension] += keys.size;
+    }
+
+    return {
+      totalSubscriptions: this.subscriptions.size,
+      totalConnections: this.connections.size,
+      indexSizes,
+    };
+  }
+}
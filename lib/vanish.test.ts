@@ -0,0 +1,60 @@
+import { assertEquals } from "@std/assert";
+import type { NostrEvent } from "@nostrify/nostrify";
+import { isVanishRequestForRelay } from "./vanish.ts";
+
+// Helper to create test events
+function createTestEvent(overrides: Partial<NostrEvent> = {}): NostrEvent {
+  return {
+    id: "0".repeat(64),
+    pubkey: "a".repeat(64),
+    created_at: Math.floor(Date.now() / 1000),
+    kind: 62,
+    tags: [],
+    content: "",
+    sig: "0".repeat(128),
+    ...overrides,
+  };
+}
+
+Deno.test("isVanishRequestForRelay - matches this relay URL", () => {
+  const event = createTestEvent({
+    tags: [["relay", "wss://relay.example.com"]],
+  });
+
+  assertEquals(
+    isVanishRequestForRelay(event, "https://relay.example.com/"),
+    true,
+  );
+  assertEquals(
+    isVanishRequestForRelay(event, "https://other.example.com/"),
+    false,
+  );
+  assertEquals(isVanishRequestForRelay(event), false);
+});
+
+Deno.test("isVanishRequestForRelay - ALL_RELAYS matches any relay", () => {
+  const event = createTestEvent({ tags: [["relay", "ALL_RELAYS"]] });
+
+  assertEquals(
+    isVanishRequestForRelay(event, "https://relay.example.com/"),
+    true,
+  );
+  assertEquals(isVanishRequestForRelay(event), true);
+});
+
+Deno.test("isVanishRequestForRelay - ignores other kinds and bad tags", () => {
+  assertEquals(
+    isVanishRequestForRelay(
+      createTestEvent({ kind: 1, tags: [["relay", "ALL_RELAYS"]] }),
+    ),
+    false,
+  );
+  assertEquals(
+    isVanishRequestForRelay(
+      createTestEvent({ tags: [["relay", "not a url"]] }),
+      "https://relay.example.com/",
+    ),
+    false,
+  );
+  assertEquals(isVanishRequestForRelay(createTestEvent()), false);
+});
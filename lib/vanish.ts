@@ -0,0 +1,49 @@
+import type { NostrEvent } from "@nostrify/nostrify";
+import { normalizeRelayUrl } from "./relay-auth.ts";
+
+/**
+ * NIP-62 Request to Vanish
+ * A kind 62 event asks the tagged relays to erase everything from its author
+ */
+
+export const VANISH_KIND = 62;
+
+/**
+ * Relay tag value addressing every relay
+ */
+export const ALL_RELAYS = "ALL_RELAYS";
+
+/**
+ * Check if a request to vanish is addressed to this relay
+ * @param event The kind 62 event
+ * @param relayUrl The public URL of this relay, if known
+ */
+export function isVanishRequestForRelay(
+  event: NostrEvent,
+  relayUrl?: string,
+): boolean {
+  if (event.kind !== VANISH_KIND) {
+    return false;
+  }
+
+  const relays = event.tags
+    .filter((tag) => tag[0] === "relay" && tag.length >= 2)
+    .map((tag) => tag[1]);
+
+  if (relays.includes(ALL_RELAYS)) {
+    return true;
+  }
+
+  if (!relayUrl) {
+    return false;
+  }
+
+  const normalized = normalizeRelayUrl(relayUrl);
+  return relays.some((relay) => {
+    try {
+      return normalizeRelayUrl(relay) === normalized;
+    } catch {
+      return false; // Ignore malformed URLs
+    }
+  });
+}
@@ -7,6 +7,7 @@ import { createClient as createRedisClient } from "redis";
 import { Config } from "@/lib/config.ts";
 import { OpenSearchRelay } from "@/lib/opensearch.ts";
 import { RelayManagement } from "@/lib/management.ts";
+import type { NostrEvent } from "@nostrify/nostrify";
 
 const config = new Config(Deno.env);
 
@@ -48,6 +49,8 @@ const management = new RelayManagement(redis, relay);
 
 const WORKER_ID = crypto.randomUUID().slice(0, 8);
 
+const EXPIRATION_PURGE_INTERVAL_MS = 60000; // How often to purge expired events
+
 console.log(`🔧 Management worker ${WORKER_ID} started`);
 
 interface ManagementCommand {
@@ -88,6 +91,19 @@ async function processCommands() {
               );
               break;
 
+            case "vanish": {
+              // NIP-62: Queued by relay workers when a request to vanish is accepted
+              const request = command.params[0] as NostrEvent;
+              const deleted = await relay.vanish(request);
+              await management.completeVanishRequest(
+                request.pubkey,
+                request.created_at,
+                deleted,
+              );
+              response = deleted;
+              break;
+            }
+
             default:
               response = { error: `Unknown method: ${command.method}` };
           }
@@ -118,12 +134,27 @@ async function processCommands() {
   }
 }
 
+// Periodically delete expired events from the index (NIP-40)
+async function purgeExpiredEvents() {
+  try {
+    await relay.purgeExpired();
+  } catch (error) {
+    console.error("Error purging expired events:", error);
+  }
+}
+
 // Start processing
 processCommands();
 
+const purgeInterval = setInterval(
+  purgeExpiredEvents,
+  EXPIRATION_PURGE_INTERVAL_MS,
+);
+
 // Graceful shutdown
 Deno.addSignalListener("SIGINT", async () => {
   console.log("\n🛑 Management worker shutting down...");
+  clearInterval(purgeInterval);
   await redis.quit();
   await relay.close();
   Deno.exit(0);
@@ -131,6 +162,7 @@ Deno.addSignalListener("SIGINT", async () => {
 
 Deno.addSignalListener("SIGTERM", async () => {
   console.log("\n🛑 Management worker shutting down...");
+  clearInterval(purgeInterval);
   await redis.quit();
   await relay.close();
   Deno.exit(0);
@@ -12,6 +12,44 @@ import { getMetricsInstance, initializeMetrics } from "@/lib/metrics.ts";
 import { OpenSearchRelay } from "@/lib/opensearch.ts";
 import { RelayManagement } from "@/lib/management.ts";
 import { PubSub } from "@/lib/pubsub.ts";
+import { BroadcastPublisher } from "@/lib/broadcast.ts";
+import {
+  canCountFilter,
+  canReadEvent,
+  isProtectedEvent,
+  RelayAuth,
+} from "@/lib/relay-auth.ts";
+import { isEventExpired } from "@/lib/expiration.ts";
+import { validatePow } from "@/lib/pow.ts";
+import { isVanishRequestForRelay, VANISH_KIND } from "@/lib/vanish.ts";
+import {
+  type NegentropyItem,
+  NegentropySessions,
+  type NegRelayMsg,
+  parseNegClientMsg,
+  reconcile,
+} from "@/lib/negentropy.ts";
+import {
+  type ActiveQuery,
+  QueryCancellation,
+} from "@/lib/query-cancellation.ts";
+import {
+  byteLength,
+  checkEventLimits,
+  clampFilterLimit,
+} from "@/lib/limits.ts";
+import { ResponsePublisher } from "@/lib/responses.ts";
+import { EventStream } from "@/lib/event-stream.ts";
+import { InboundQueue } from "@/lib/inbound-queue.ts";
+import { SeenEvents } from "@/lib/seen-events.ts";
+import { mergeRecentEvents, RecentEvents } from "@/lib/recent-events.ts";
+import { storageAckChannel, StorageAcks } from "@/lib/storage-acks.ts";
+import { getEventAddress, LatestVersions } from "@/lib/replaceable.ts";
+import {
+  type RateLimitCheck,
+  RateLimiter,
+  rateLimitReason,
+} from "@/lib/rate-limit.ts";
 import type {
   NostrEvent,
   NostrFilter,
@@ -70,8 +108,61 @@ const management = new RelayManagement(redis, relay);
 // Initialize PubSub for subscription management
 const pubsub = new PubSub(redis);
 
+// Initialize publishing of accepted events and subscriptions to the servers,
+// which match events against their connections' subscriptions
+const broadcast = new BroadcastPublisher(redis);
+
+// Initialize NIP-42 auth for verifying AUTH responses
+const relayAuth = new RelayAuth(redis);
+
+// Initialize NIP-77 negentropy session state
+const negentropy = new NegentropySessions(redis);
+
+// Initialize cancellation of historical queries on CLOSE or disconnect
+const queryCancellation = new QueryCancellation(redis);
+
+// Initialize response publishing to the server owning each connection
+const responses = new ResponsePublisher(redis);
+
+// Initialize the stream of events awaiting storage
+const eventStream = new EventStream(redis);
+
+// Initialize the per-connection queues of client messages
+const inbound = new InboundQueue(redis);
+
+// Recover connections leased by workers that died while handling a message
+setInterval(async () => {
+  try {
+    await inbound.recoverExpiredLeases();
+  } catch (error) {
+    console.error("Failed to recover expired leases:", error);
+  }
+}, 5000);
+
+// Initialize rate limiting per IP, connection and pubkey
+const rateLimiter = new RateLimiter(redis, management);
+
+// Initialize the recently accepted event IDs for duplicate detection
+const seenEvents = new SeenEvents(redis, config.seenEventsTtl);
+
+// Initialize the latest versions of replaceable and addressable events
+const latestVersions = new LatestVersions(redis);
+
+// Initialize the cache of accepted events until they're searchable
+const recentEvents = new RecentEvents(redis);
+
 const WORKER_ID = crypto.randomUUID().slice(0, 8);
 
+// Durable acknowledgements: storage outcomes arrive on a dedicated connection
+let ackSubscriber: RedisClientType | undefined;
+let storageAcks: StorageAcks | undefined;
+if (config.durableAcks) {
+  ackSubscriber = redis.duplicate();
+  await ackSubscriber.connect();
+  storageAcks = new StorageAcks(ackSubscriber, storageAckChannel(WORKER_ID));
+  await storageAcks.start();
+}
+
 // Helper function to check if an event is ephemeral
 function isEphemeral(kind: number): boolean {
   return kind >= 20000 && kind < 30000;
@@ -88,9 +179,53 @@ function isEventTooOld(event: NostrEvent): boolean {
   return eventAge > config.broadcastMaxAge;
 }
 
+// Helper function to check if filters explicitly request private kinds
+function requestsPrivateKinds(filters: NostrFilter[]): boolean {
+  return filters.some((filter) =>
+    filter.kinds?.some((kind) => config.privateKinds.includes(kind))
+  );
+}
+
+// Check whether an event is the latest version of its address, if it's
+// replaceable or addressable, looking the stored version up when not cached
+async function isLatestVersion(event: NostrEvent): Promise<boolean> {
+  const address = getEventAddress(event);
+  if (!address) {
+    return true;
+  }
+
+  try {
+    const latest = await latestVersions.update(address, event);
+    if (latest !== undefined) {
+      return latest;
+    }
+
+    const stored = await relay.getStoredVersion(address);
+    return await latestVersions.update(address, event, stored) ?? true;
+  } catch (error) {
+    // Broadcasting a superseded version beats dropping the latest one
+    console.error("Failed to check latest version:", error);
+    return true;
+  }
+}
+
+// Rate limit checks of a message type for the connection and its IP
+function clientRateLimits(
+  type: string,
+  connId: string,
+  ip: string | undefined,
+): RateLimitCheck[] {
+  const checks = [{ rule: `conn:${type}`, id: connId }];
+  if (ip) {
+    checks.unshift({ rule: `ip:${type}`, id: ip });
+  }
+  return checks;
+}
+
 async function handleEvent(
   connId: string,
   event: NostrEvent,
+  ip: string | undefined,
 ): Promise<void> {
   // Increment events received counter
   await metrics.incrementEventsReceived();
@@ -98,6 +233,60 @@ async function handleEvent(
   // Increment events by kind counter
   await metrics.incrementEventByKind(event.kind);
 
+  const authPubkey = await relayAuth.getPubkey(connId);
+
+  // NIP-42: Check if authentication is required for writes
+  if (config.authRequiredForWrites && !authPubkey) {
+    await metrics.incrementEventsRejected();
+    await sendResponse(connId, [
+      "OK",
+      event.id,
+      false,
+      "auth-required: authentication is required to publish events",
+    ]);
+    return;
+  }
+
+  // NIP-70: Protected events may only be published by their author
+  if (isProtectedEvent(event) && authPubkey !== event.pubkey) {
+    await metrics.incrementEventsRejected();
+    await sendResponse(connId, [
+      "OK",
+      event.id,
+      false,
+      "auth-required: this event may only be published by its author",
+    ]);
+    return;
+  }
+
+  // NIP-86: Check if the client's IP was blocked after it connected
+  if (ip && await management.isIPBlocked(ip)) {
+    await metrics.incrementEventsRejected();
+    await sendResponse(connId, [
+      "OK",
+      event.id,
+      false,
+      "blocked: IP address is blocked",
+    ]);
+    return;
+  }
+
+  // Rate limit events per IP and connection, overall and per kind
+  const clientLimited = await rateLimiter.consume([
+    ...clientRateLimits("event", connId, ip),
+    ...clientRateLimits(`kind:${event.kind}`, connId, ip),
+  ]);
+  if (clientLimited) {
+    await metrics.incrementEventsRejected();
+    await sendResponse(connId, [
+      "OK",
+      event.id,
+      false,
+      rateLimitReason(clientLimited),
+    ]);
+    return;
+  }
+
   // NIP-86: Check if pubkey is banned
   if (await management.isPubkeyBanned(event.pubkey)) {
     await metrics.incrementEventsRejected();
@@ -146,6 +335,31 @@ async function handleEvent(
     return;
   }
 
+  // NIP-40: Reject events that have already expired
+  if (isEventExpired(event)) {
+    await metrics.incrementEventsRejected();
+    await sendResponse(connId, [
+      "OK",
+      event.id,
+      false,
+      "invalid: event has expired",
+    ]);
+    return;
+  }
+
+  // NIP-01: Republished events are acknowledged without verifying, storing or
+  // broadcasting them again
+  if (await seenEvents.has(event.id)) {
+    await metrics.incrementEventsDuplicate();
+    await sendResponse(connId, [
+      "OK",
+      event.id,
+      true,
+      "duplicate: already have this event",
+    ]);
+    return;
+  }
+
   // Validate event
   await wasmInitialized;
   if (!verifyEvent(event)) {
@@ -159,17 +373,59 @@ async function handleEvent(
     return;
   }
 
-  if (JSON.stringify(event).length > 500000) {
+  // Rate limit events per pubkey once the signature proves authorship
+  const pubkeyLimited = await rateLimiter.consume([
+    { rule: "pubkey:event", id: event.pubkey },
+    { rule: `pubkey:kind:${event.kind}`, id: event.pubkey },
+  ]);
+  if (pubkeyLimited) {
+    await metrics.incrementEventsRejected();
+    await sendResponse(connId, [
+      "OK",
+      event.id,
+      false,
+      rateLimitReason(pubkeyLimited),
+    ]);
+    return;
+  }
+
+  // NIP-13: Check proof of work (id is verified above)
+  const powResult = validatePow(
+    event,
+    await management.getRequiredPowDifficulty(event.kind),
+  );
+  if (!powResult.valid) {
     await metrics.incrementEventsRejected();
     await sendResponse(connId, [
       "OK",
       event.id,
       false,
-      "rejected: event too large",
+      `pow: ${powResult.error}`,
     ]);
     return;
   }
 
+  if (
+    byteLength(JSON.stringify(event)) > config.limits.max_message_length
+  ) {
+    await metrics.incrementEventsRejected();
+    await sendResponse(connId, [
+      "OK",
+      event.id,
+      false,
+      "invalid: event too large",
+    ]);
+    return;
+  }
+
+  // NIP-11: Enforce the advertised tag, content and created_at limits
+  const limitError = checkEventLimits(event, config.limits);
+  if (limitError) {
+    await metrics.incrementEventsRejected();
+    await sendResponse(connId, ["OK", event.id, false, limitError]);
+    return;
+  }
+
   // Check if event is ephemeral
   const ephemeral = isEphemeral(event.kind);
   const tooOld = isEventTooOld(event);
@@ -186,19 +442,85 @@ async function handleEvent(
     return;
   }
 
+  // NIP-62: Only accept requests to vanish addressed to this relay, since
+  // stored requests act as tombstones for the author's older events
+  const vanish = event.kind === VANISH_KIND;
+  if (vanish && !isVanishRequestForRelay(event, config.relayUrl)) {
+    await metrics.incrementEventsRejected();
+    await sendResponse(connId, [
+      "OK",
+      event.id,
+      false,
+      "invalid: request to vanish is not addressed to this relay",
+    ]);
+    return;
+  }
+
+  // Another worker may have accepted the same event since the check above
+  if (!(await seenEvents.add(event.id))) {
+    await metrics.incrementEventsDuplicate();
+    await sendResponse(connId, [
+      "OK",
+      event.id,
+      true,
+      "duplicate: already have this event",
+    ]);
+    return;
+  }
+
   try {
     // Only store non-ephemeral events
     // Ephemeral events are only broadcast, never stored
     if (!ephemeral) {
-      await redis.lPush("nostr:events:queue", JSON.stringify(event));
+      // Cached before it's queued, so storage workers always find it when
+      // confirming it, and before it's broadcast, so a REQ either queries it
+      // or receives it live
+      await recentEvents.add(event);
+
+      if (storageAcks) {
+        const error = await queueDurably(storageAcks, event);
+        if (error) {
+          // Let the client publish it again, and stop serving it from the cache
+          await seenEvents.remove(event.id);
+          await recentEvents.remove([event]);
+          await sendResponse(connId, ["OK", event.id, false, error]);
+          return;
+        }
+      } else {
+        await eventStream.add(event);
+      }
+    }
+
+    // NIP-62: Erase the author's events in the management worker
+    if (vanish) {
+      await management.recordVanishRequest(event.pubkey, event.created_at);
+      await recentEvents.vanish(event);
+      await redis.rPush(
+        "relay:management:queue",
+        JSON.stringify({
+          method: "vanish",
+          params: [event],
+          requestId: crypto.randomUUID(),
+        }),
+      );
     }
 
     await sendResponse(connId, ["OK", event.id, true, ""]);
 
-    // Broadcast to subscribers (will be filtered if too old)
-    await broadcastEvent(event);
+    // Broadcast to subscribers (will be filtered if too old), unless a newer
+    // version of a replaceable event arrived first, since storage discards it
+    if (await isLatestVersion(event)) {
+      await broadcastEvent(event);
+    }
   } catch (error) {
     console.error("Failed to process event:", error);
+    // Let the client publish it again
+    try {
+      await seenEvents.remove(event.id);
+      await recentEvents.remove([event]);
+    } catch (removeError) {
+      console.error("Failed to forget event:", removeError);
+    }
     await sendResponse(connId, [
       "OK",
       event.id,
@@ -208,22 +530,108 @@ async function handleEvent(
   }
 }
 
+/**
+ * Queue an event and wait for storage workers to confirm it was stored
+ * @returns The message of the OK to send if it wasn't stored in time
+ */
+async function queueDurably(
+  storageAcks: StorageAcks,
+  event: NostrEvent,
+): Promise<string | undefined> {
+  const started = Date.now();
+  const outcome = await storageAcks.wait(
+    event.id,
+    config.durableAckTimeout,
+    () => eventStream.add(event, storageAcks.channel),
+  );
+
+  await metrics.incrementDurableAcks();
+  await metrics.incrementDurableAckWaitMs(Date.now() - started);
+
+  if (!outcome) {
+    await metrics.incrementDurableAckTimeouts();
+    return "error: timed out waiting for storage";
+  }
+  if (!outcome.stored) {
+    console.error(`Failed to store event ${event.id}:`, outcome.reason);
+    return "error: failed to store event";
+  }
+  return undefined;
+}
+
 async function handleReq(
   connId: string,
   subId: string,
   filters: NostrFilter[],
+  ip: string | undefined,
 ): Promise<void> {
   // Increment queries counter
   await metrics.incrementQueriesTotal();
 
+  // Rate limit REQ messages per IP and connection
+  const limited = await rateLimiter.consume(
+    clientRateLimits("req", connId, ip),
+  );
+  if (limited) {
+    await sendResponse(connId, ["CLOSED", subId, rateLimitReason(limited)]);
+    return;
+  }
+
+  // NIP-42: Look up the authenticated pubkey for this connection
+  const authPubkey = await relayAuth.getPubkey(connId);
+
+  // NIP-42: Check if authentication is required for reads
+  if (config.authRequiredForReads && !authPubkey) {
+    await sendResponse(connId, [
+      "CLOSED",
+      subId,
+      "auth-required: authentication is required to read events",
+    ]);
+    return;
+  }
+
+  // NIP-42: Private kinds (DMs, gift wraps) are only readable when authenticated
+  if (!authPubkey && requestsPrivateKinds(filters)) {
+    await sendResponse(connId, [
+      "CLOSED",
+      subId,
+      "auth-required: authentication is required to read private events",
+    ]);
+    return;
+  }
+
   // Limit filters per subscription
   if (filters.length > 10) {
     filters = filters.slice(0, 10);
   }
 
-  // Subscribe for future events using PubSub
+  // NIP-11: Enforce the advertised subscription limits
+  if (subId.length > config.limits.max_subid_length) {
+    await sendResponse(connId, [
+      "CLOSED",
+      subId,
+      `invalid: subscription id too long (max ${config.limits.max_subid_length})`,
+    ]);
+    return;
+  }
+
+  if (
+    !(await pubsub.hasSubscription(connId, subId)) &&
+    (await pubsub.countSubscriptions(connId)) >=
+      config.limits.max_subscriptions
+  ) {
+    await sendResponse(connId, [
+      "CLOSED",
+      subId,
+      `restricted: too many subscriptions (max ${config.limits.max_subscriptions})`,
+    ]);
+    return;
+  }
+
+  // Subscribe for future events, matched by the server owning the connection
   try {
-    await pubsub.subscribe(connId, subId, filters);
+    await pubsub.subscribe(connId, subId);
+    await broadcast.subscribe(connId, subId, filters);
   } catch (error) {
     console.error("Failed to subscribe:", error);
     await sendResponse(connId, [
@@ -234,39 +642,80 @@ async function handleReq(
     return;
   }
 
-  // Query historical events for each filter
-  const queryPromises = filters.map(async (filter) => {
-    try {
-      const events = await relay.query([filter]);
+  // Watch for CLOSE or disconnect while the historical query runs
+  let query: ActiveQuery | undefined;
+  try {
+    query = await queryCancellation.start(connId, subId);
+    const { signal } = query;
+
+    // Query historical events of each filter, giving up on filters still
+    // running after 10 seconds, and merge in the cached events not searchable
+    // yet. Events accepted since subscribing are held by the server until EOSE.
+    const clamped = filters.map((filter) =>
+      clampFilterLimit(filter, config.limits)
+    );
+    const recent = await Promise.all(
+      clamped.map((filter) => recentEvents.query(filter)),
+    );
+    const timeout = AbortSignal.timeout(10000);
+    const results = await Promise.all(
+      clamped.map((filter) =>
+        relay.query([filter], { signal: AbortSignal.any([signal, timeout]) })
+      ),
+    );
+    if (timeout.aborted && !signal.aborted) {
+      console.error("Query timeout for filters:", filters);
+    }
+    const events = mergeRecentEvents(clamped, results, recent);
 
-      for (const event of events) {
+    // Drop private events the connection is not a party to
+    const sent: string[] = [];
+    for (const event of events) {
+      // Stop feeding a subscription nobody is reading anymore
+      if (signal.aborted) break;
+      if (canReadEvent(event, authPubkey, config.privateKinds)) {
         await sendResponse(connId, ["EVENT", subId, event]);
+        sent.push(event.id);
       }
-      return events.length;
-    } catch (error) {
-      console.error("Query failed for filter:", filter, error);
-      return 0;
     }
-  });
 
-  try {
-    await Promise.race([
-      Promise.all(queryPromises),
-      new Promise((_, reject) =>
-        setTimeout(() => reject(new Error("Query timeout")), 10000)
-      ),
-    ]);
+    // Cancelled subscriptions don't get an EOSE
+    if (!signal.aborted) {
+      await sendResponse(connId, ["EOSE", subId]);
+
+      // Deliver the held live events, except cached ones already sent
+      const cached = new Set(recent.flat().map((event) => event.id));
+      await broadcast.release(
+        connId,
+        subId,
+        sent.filter((id) => cached.has(id)),
+      );
+    }
   } catch (error) {
-    console.error("Query timeout or error:", error);
-  }
+    console.error("Failed to query events:", error);
 
-  // Send EOSE
-  await sendResponse(connId, ["EOSE", subId]);
+    // Close the subscription rather than leave its live events held forever
+    try {
+      await pubsub.unsubscribe(connId, subId);
+      await broadcast.unsubscribe(connId, subId);
+    } catch (unsubscribeError) {
+      console.error("Failed to unsubscribe:", unsubscribeError);
+    }
+    await sendResponse(connId, [
+      "CLOSED",
+      subId,
+      "error: failed to query events",
+    ]);
+  } finally {
+    await query?.finish();
+  }
 }
 
 async function handleClose(connId: string, subId: string): Promise<void> {
   try {
+    await queryCancellation.cancel(connId, subId);
     await pubsub.unsubscribe(connId, subId);
+    await broadcast.unsubscribe(connId, subId);
   } catch (error) {
     console.error("Failed to unsubscribe:", error);
   }
@@ -276,18 +725,89 @@ async function handleCount(
   connId: string,
   subId: string,
   filters: NostrFilter[],
+  ip: string | undefined,
 ): Promise<void> {
   // Increment queries counter
   await metrics.incrementQueriesTotal();
 
+  // Rate limit COUNT messages per IP and connection
+  const limited = await rateLimiter.consume(
+    clientRateLimits("count", connId, ip),
+  );
+  if (limited) {
+    await sendResponse(connId, ["CLOSED", subId, rateLimitReason(limited)]);
+    return;
+  }
+
+  // NIP-42: Look up the authenticated pubkey for this connection
+  const authPubkey = await relayAuth.getPubkey(connId);
+
+  // NIP-42: Check if authentication is required for reads
+  if (config.authRequiredForReads && !authPubkey) {
+    await sendResponse(connId, [
+      "CLOSED",
+      subId,
+      "auth-required: authentication is required to count events",
+    ]);
+    return;
+  }
+
+  // NIP-42: Private kinds (DMs, gift wraps) are only countable when authenticated
+  if (!authPubkey && requestsPrivateKinds(filters)) {
+    await sendResponse(connId, [
+      "CLOSED",
+      subId,
+      "auth-required: authentication is required to count private events",
+    ]);
+    return;
+  }
+
+  // NIP-42: Private events are only countable for the authenticated pubkey
+  if (
+    filters.some((filter) =>
+      requestsPrivateKinds([filter]) &&
+      !canCountFilter(filter, authPubkey, config.privateKinds)
+    )
+  ) {
+    await sendResponse(connId, [
+      "CLOSED",
+      subId,
+      "restricted: private events can only be counted for your own pubkey",
+    ]);
+    return;
+  }
+
   // Limit filters per count request
   if (filters.length > 10) {
     filters = filters.slice(0, 10);
   }
 
+  // NIP-11: Enforce the advertised subscription ID length
+  if (subId.length > config.limits.max_subid_length) {
+    await sendResponse(connId, [
+      "CLOSED",
+      subId,
+      `invalid: subscription id too long (max ${config.limits.max_subid_length})`,
+    ]);
+    return;
+  }
+
   try {
+    // Filters without kinds that aren't scoped to the authenticated pubkey
+    // only count the events of non-private kinds
+    const ownFilters = filters.filter((filter) =>
+      canCountFilter(filter, authPubkey, config.privateKinds)
+    );
+    const otherFilters = filters.filter((filter) =>
+      !canCountFilter(filter, authPubkey, config.privateKinds)
+    );
+
     // Get count from relay
-    const result = await relay.count(filters);
+    const own = await relay.count(ownFilters);
+    const others = await relay.count(otherFilters, {
+      excludeKinds: config.privateKinds,
+    });
+    const result = { count: own.count + others.count };
 
     // Send COUNT response
     await sendResponse(connId, ["COUNT", subId, result]);
@@ -302,6 +822,157 @@ async function handleCount(
   }
 }
 
+async function handleNegOpen(
+  connId: string,
+  subId: string,
+  filter: NostrFilter,
+  message: string,
+  ip: string | undefined,
+): Promise<void> {
+  // Increment queries counter
+  await metrics.incrementQueriesTotal();
+
+  // Rate limit NEG-OPEN messages per IP and connection, since each one scans
+  // every event matching its filter
+  const limited = await rateLimiter.consume(
+    clientRateLimits("neg", connId, ip),
+  );
+  if (limited) {
+    await sendResponse(connId, ["NEG-ERR", subId, rateLimitReason(limited)]);
+    return;
+  }
+
+  // NIP-11: Enforce the advertised subscription ID length
+  if (subId.length > config.limits.max_subid_length) {
+    await sendResponse(connId, [
+      "NEG-ERR",
+      subId,
+      `invalid: subscription id too long (max ${config.limits.max_subid_length})`,
+    ]);
+    return;
+  }
+
+  // NIP-42: Look up the authenticated pubkey for this connection
+  const authPubkey = await relayAuth.getPubkey(connId);
+
+  // NIP-42: Check if authentication is required for reads
+  if (config.authRequiredForReads && !authPubkey) {
+    await sendResponse(connId, [
+      "NEG-ERR",
+      subId,
+      "auth-required: authentication is required to sync events",
+    ]);
+    return;
+  }
+
+  // NIP-42: Private kinds (DMs, gift wraps) are only readable when authenticated
+  if (!authPubkey && requestsPrivateKinds([filter])) {
+    await sendResponse(connId, [
+      "NEG-ERR",
+      subId,
+      "auth-required: authentication is required to sync private events",
+    ]);
+    return;
+  }
+
+  try {
+    // Collect (created_at, id) pairs, dropping private events the connection
+    // is not a party to
+    const items: NegentropyItem[] = [];
+    for await (const event of relay.scan(filter)) {
+      if (!canReadEvent(event, authPubkey, config.privateKinds)) continue;
+
+      if (items.length >= config.negentropyMaxItems) {
+        await sendResponse(connId, [
+          "NEG-ERR",
+          subId,
+          "blocked: this query is too big",
+        ]);
+        return;
+      }
+      items.push({ created_at: event.created_at, id: event.id });
+    }
+
+    const reply = await reconcile(items, message);
+    await negentropy.open(connId, subId, items);
+    await sendResponse(connId, ["NEG-MSG", subId, reply]);
+  } catch (error) {
+    console.error("Failed to open negentropy session:", error);
+    await sendResponse(connId, [
+      "NEG-ERR",
+      subId,
+      `error: ${error instanceof Error ? error.message : "failed to sync"}`,
+    ]);
+  }
+}
+
+async function handleNegMsg(
+  connId: string,
+  subId: string,
+  message: string,
+): Promise<void> {
+  try {
+    const items = await negentropy.get(connId, subId);
+    if (!items) {
+      await sendResponse(connId, [
+        "NEG-ERR",
+        subId,
+        "closed: unknown subscription",
+      ]);
+      return;
+    }
+
+    const reply = await reconcile(items, message);
+    await sendResponse(connId, ["NEG-MSG", subId, reply]);
+  } catch (error) {
+    console.error("Failed to reconcile negentropy message:", error);
+    await negentropy.close(connId, subId);
+    await sendResponse(connId, [
+      "NEG-ERR",
+      subId,
+      `error: ${error instanceof Error ? error.message : "failed to sync"}`,
+    ]);
+  }
+}
+
+async function handleNegClose(connId: string, subId: string): Promise<void> {
+  try {
+    await negentropy.close(connId, subId);
+  } catch (error) {
+    console.error("Failed to close negentropy session:", error);
+  }
+}
+
+async function handleAuth(
+  connId: string,
+  event: NostrEvent,
+): Promise<void> {
+  try {
+    const result = await relayAuth.authenticate(connId, event);
+
+    if (result.valid) {
+      // The owning server matches private events against it in memory
+      await broadcast.authenticate(connId, result.pubkey!);
+      await sendResponse(connId, ["OK", event.id, true, ""]);
+    } else {
+      await sendResponse(connId, [
+        "OK",
+        event.id,
+        false,
+        `invalid: ${result.error}`,
+      ]);
+    }
+  } catch (error) {
+    console.error("Auth failed:", error);
+    await sendResponse(connId, [
+      "OK",
+      event.id,
+      false,
+      "error: failed to authenticate",
+    ]);
+  }
+}
+
 async function broadcastEvent(event: NostrEvent): Promise<void> {
   // Check if event is too old to broadcast (but not ephemeral)
   const ephemeral = isEphemeral(event.kind);
@@ -313,63 +984,84 @@ async function broadcastEvent(event: NostrEvent): Promise<void> {
   }
 
   try {
-    // Find all matching subscriptions using inverted indexes
-    const matchingSubscriptions = await pubsub.findMatchingSubscriptions(event);
-
-    // Broadcast to each matching subscription
-    for (const [_indexKey, subscription] of matchingSubscriptions) {
-      const { connId, subId } = subscription;
-
-      // Send EVENT message to the connection
-      await sendResponse(connId, ["EVENT", subId, event]);
-    }
-
-    // Increment broadcast counter if we sent to any subscriptions
-    if (matchingSubscriptions.size > 0) {
-      await metrics.incrementEventsBroadcast();
-    }
+    // Publish once, every server matches it against its own connections'
+    // subscriptions
+    await broadcast.publish(event);
+    await metrics.incrementEventsBroadcast();
   } catch (error) {
     console.error("Failed to broadcast event:", error);
   }
 }
 
-async function sendResponse(connId: string, msg: NostrRelayMsg): Promise<void> {
-  const queueKey = `nostr:responses:${connId}`;
-
-  // Push the response and set TTL atomically using pipeline
-  // TTL of 5 seconds ensures orphaned queues get cleaned up
-  // If the connection is still active, the server will reset this TTL
-  // Note: We only store the message, not the connId - it's already in the queue key
-  const pipeline = redis.multi();
-  pipeline.rPush(queueKey, JSON.stringify(msg));
-  pipeline.expire(queueKey, 5);
-  await pipeline.exec();
+async function sendResponse(
+  connId: string,
+  msg: NostrRelayMsg | NegRelayMsg,
+): Promise<void> {
+  // Publish to the server owning the connection, which forwards it to the
+  // socket. Awaiting each publish keeps responses in order.
+  await responses.send(connId, msg);
 }
 
 // Main processing loop
 async function processMessages() {
   while (true) {
     try {
-      // Block and wait for a message (BRPOP with 1 second timeout)
-      const result = await redis.brPop("nostr:relay:queue", 1);
+      // Block and wait for a message, round-robin across connections
+      // The connection is leased until the message is handled, so messages of
+      // a connection are handled in order
+      const result = await inbound.pop(1);
 
       if (result) {
-        const messageData = JSON.parse(result.element);
-        const { connId, msg } = messageData;
+        // The client IP is resolved by the server, behind trusted proxies
+        const { connId, msg, ip } = result;
+
+        // Keep the connection leased while the message takes long to handle,
+        // such as a large NEG-OPEN scan or a durable acknowledgement
+        let extending: Promise<unknown> = Promise.resolve();
+        const leaseTimer = setInterval(() => {
+          extending = inbound.extend(result).catch((error) =>
+            console.error("Failed to extend lease:", error)
+          );
+        }, inbound.leaseMs / 3);
 
         try {
+          // NIP-77 messages aren't part of the NIP-01 client message schema
+          const negMsg = parseNegClientMsg(JSON.parse(msg));
+          if (negMsg) {
+            switch (negMsg[0]) {
+              case "NEG-OPEN": {
+                const [_, subId, filter, message] = negMsg;
+                await handleNegOpen(connId, subId, filter, message, ip);
+                break;
+              }
+
+              case "NEG-MSG": {
+                const [_, subId, message] = negMsg;
+                await handleNegMsg(connId, subId, message);
+                break;
+              }
+
+              case "NEG-CLOSE": {
+                const [_, subId] = negMsg;
+                await handleNegClose(connId, subId);
+                break;
+              }
+            }
+            continue;
+          }
+
           const parsed = n.json().pipe(n.clientMsg()).parse(msg);
 
           switch (parsed[0]) {
             case "EVENT": {
               const event = parsed[1];
-              await handleEvent(connId, event);
+              await handleEvent(connId, event, ip);
               break;
             }
 
             case "REQ": {
               const [_, subId, ...filters] = parsed;
-              await handleReq(connId, subId, filters);
+              await handleReq(connId, subId, filters, ip);
               break;
             }
 
@@ -381,7 +1073,18 @@ async function processMessages() {
 
             case "COUNT": {
               const [_, subId, ...filters] = parsed;
-              await handleCount(connId, subId, filters as NostrFilter[]);
+              await handleCount(
+                connId,
+                subId,
+                filters as NostrFilter[],
+                ip,
+              );
+              break;
+            }
+
+            case "AUTH": {
+              const event = parsed[1];
+              await handleAuth(connId, event);
               break;
             }
 
@@ -391,6 +1094,12 @@ async function processMessages() {
         } catch (err) {
           console.error("Message processing error:", err);
           await sendResponse(connId, ["NOTICE", "invalid message"]);
+        } finally {
+          // Let the connection's next message be taken, once the lease is no
+          // longer being extended
+          clearInterval(leaseTimer);
+          await extending;
+          await inbound.release(result);
         }
       }
     } catch (error) {
@@ -404,6 +1113,8 @@ async function processMessages() {
 // Graceful shutdown
 const shutdown = async () => {
   console.log(`Shutting down relay worker ${WORKER_ID}...`);
+  await storageAcks?.stop();
+  await ackSubscriber?.quit();
   await redis.quit();
   await opensearch.close();
   Deno.exit(0);
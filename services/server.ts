@@ -1,5 +1,6 @@
 import { Hono } from "hono";
 import { cors } from "hono/cors";
+import { getConnInfo } from "hono/deno";
 import { createClient as createRedisClient, type RedisClientType } from "redis";
 import { Config } from "@/lib/config.ts";
 import {
@@ -18,6 +19,21 @@ import {
 import { RelayManagement } from "@/lib/management.ts";
 import { getRelayInformation } from "@/lib/relay-info.ts";
 import { PubSub } from "@/lib/pubsub.ts";
+import { RelayAuth } from "@/lib/relay-auth.ts";
+import { NegentropySessions } from "@/lib/negentropy.ts";
+import {
+  getCancelledSubId,
+  QueryCancellation,
+} from "@/lib/query-cancellation.ts";
+import { createConnId, ResponseRouter } from "@/lib/responses.ts";
+import { BroadcastRouter } from "@/lib/broadcast.ts";
+import { SubscriptionIndex } from "@/lib/subscription-index.ts";
+import { EventStream } from "@/lib/event-stream.ts";
+import { getClientIP, isValidCidr } from "@/lib/ip.ts";
+import { isValidRateLimitRule } from "@/lib/rate-limit.ts";
+import { byteLength } from "@/lib/limits.ts";
+import { InboundQueue } from "@/lib/inbound-queue.ts";
+import { ServerRegistry } from "@/lib/servers.ts";
 
 // Instantiate config with Deno.env
 const config = new Config(Deno.env);
@@ -38,9 +54,92 @@ const metrics = getMetricsInstance();
 // Initialize relay management
 const management = new RelayManagement(redis);
 
-// Initialize PubSub for subscription cleanup
+// Initialize PubSub for subscription cleanup and stats
 const pubsub = new PubSub(redis);
 
+// Initialize NIP-42 auth for issuing challenges
+const relayAuth = new RelayAuth(redis);
+
+// Initialize NIP-77 negentropy sessions for cleanup
+const negentropy = new NegentropySessions(redis);
+
+// Initialize query cancellation to stop historical queries on disconnect
+const queryCancellation = new QueryCancellation(redis);
+
+// Initialize the per-connection queues of messages for relay workers
+const inbound = new InboundQueue(redis);
+
+// Initialize the events stream for managing dead-lettered events
+const eventStream = new EventStream(redis);
+
+// Each server process receives the responses for its own connections
+const serverId = crypto.randomUUID().slice(0, 8);
+
+// Dedicated Redis connection for receiving responses from relay workers
+const subscriber: RedisClientType = redis.duplicate();
+await subscriber.connect();
+
+const responses = new ResponseRouter(subscriber, serverId);
+await responses.start();
+
+// Subscriptions of this server's connections, matched in memory against the
+// events broadcast by relay workers
+const subscriptions = new SubscriptionIndex();
+const broadcasts = new BroadcastRouter(
+  subscriber,
+  serverId,
+  subscriptions,
+  config.privateKinds,
+);
+await broadcasts.start(
+  (connId, subId, event) => {
+    responses.deliver(connId, JSON.stringify(["EVENT", subId, event]));
+  },
+  (connId, subId, reason) => {
+    responses.deliver(connId, JSON.stringify(["CLOSED", subId, reason]));
+    // Stop the historical query and free the subscription slot
+    Promise.all([
+      queryCancellation.cancel(connId, subId),
+      pubsub.unsubscribe(connId, subId),
+    ]).catch((error) =>
+      console.error("Failed to clean up closed subscription:", error)
+    );
+  },
+);
+
+// Connection state in Redis lives until its connection closes, so only a
+// heartbeat of this server is kept alive, and the connections of servers that
+// stopped without cleaning up are cleaned up by the others
+const servers = new ServerRegistry(redis, serverId);
+await servers.heartbeat();
+const heartbeatInterval = setInterval(async () => {
+  try {
+    await servers.heartbeat();
+    for (const deadServerId of await servers.findDeadServers()) {
+      for (const connId of await servers.takeConnections(deadServerId)) {
+        await cleanupConnection(connId);
+      }
+    }
+  } catch (err) {
+    console.error("Error checking servers:", err);
+  }
+}, 20000);
+
+/**
+ * Remove the queued messages, queries, subscriptions, auth state and
+ * negentropy sessions of a closed connection from Redis
+ */
+async function cleanupConnection(connId: string): Promise<void> {
+  await inbound.clear(connId);
+  await queryCancellation.cancelAll(connId);
+  await pubsub.unsubscribeAll(connId);
+  await relayAuth.clear(connId);
+  await negentropy.closeAll(connId);
+}
+
+// Index IP blocks recorded before blocked addresses and ranges were kept apart
+await management.indexBlockedIPs();
+
 // Initialize relay metadata from config if provided
 if (config.relayName) {
   await management.setRelayName(config.relayName);
@@ -59,6 +158,7 @@ const localMetrics = {
   websocketErrors: 0,
   messagesSent: 0,
   messagesReceived: 0,
+  connectionsOverloaded: 0,
 };
 
 // Flush local metrics to Redis every 5 seconds
@@ -89,6 +189,12 @@ setInterval(async () => {
       await metrics.incrementMessagesReceived(localMetrics.messagesReceived);
       localMetrics.messagesReceived = 0;
     }
+    if (localMetrics.connectionsOverloaded > 0) {
+      await metrics.incrementConnectionsOverloaded(
+        localMetrics.connectionsOverloaded,
+      );
+      localMetrics.connectionsOverloaded = 0;
+    }
   } catch (err) {
     console.error("Error flushing metrics:", err);
   }
@@ -154,13 +260,19 @@ app.get("/metrics", async (c) => {
 
 // Health endpoint
 app.get("/health", async (c) => {
-  const queueLength = await redis.lLen("nostr:relay:queue");
+  // Connections with messages waiting for relay workers
+  const queuedConnections = await inbound.readyConnections();
   const pubsubStats = await pubsub.getStats();
+  // Sizes of this server's in-memory subscription index
+  const { indexSizes } = subscriptions.getStats();
 
   return c.json({
     status: "ok",
-    queueLength,
-    subscriptions: pubsubStats,
+    // Kept for existing monitors, now counting the connections workers serve
+    // round-robin rather than single messages
+    queueLength: queuedConnections,
+    queuedConnections,
+    subscriptions: { ...pubsubStats, indexSizes },
   });
 });
 
@@ -260,6 +372,10 @@ app.post("/", async (c) => {
         result = await management.listAllowedPubkeys();
         break;
 
+      case "listvanishedpubkeys":
+        result = await management.listVanishedPubkeys();
+        break;
+
       case "banevent":
         if (typeof params[0] !== "string") {
           return c.json({ error: "Invalid event id parameter" }, 400);
@@ -279,6 +395,24 @@ app.post("/", async (c) => {
         result = await management.listBannedEvents();
         break;
 
+      case "listdeadletterevents":
+        result = await eventStream.listDeadLetters();
+        break;
+
+      case "retrydeadletterevent":
+        if (typeof params[0] !== "string") {
+          return c.json({ error: "Invalid event id parameter" }, 400);
+        }
+        result = await eventStream.retryDeadLetter(params[0]);
+        break;
+
+      case "discarddeadletterevent":
+        if (typeof params[0] !== "string") {
+          return c.json({ error: "Invalid event id parameter" }, 400);
+        }
+        result = await eventStream.discardDeadLetter(params[0]);
+        break;
+
       case "allowkind":
         if (typeof params[0] !== "number") {
           return c.json({ error: "Invalid kind parameter" }, 400);
@@ -297,8 +431,66 @@ app.post("/", async (c) => {
         result = await management.listAllowedKinds();
         break;
 
-      case "blockip":
+      case "setminpowdifficulty":
+        if (typeof params[0] !== "number" || params[0] < 0) {
+          return c.json({ error: "Invalid difficulty parameter" }, 400);
+        }
+        result = await management.setMinPowDifficulty(params[0]);
+        break;
+
+      case "setkindpowdifficulty":
+        if (typeof params[0] !== "number") {
+          return c.json({ error: "Invalid kind parameter" }, 400);
+        }
+        if (typeof params[1] !== "number" || params[1] < 0) {
+          return c.json({ error: "Invalid difficulty parameter" }, 400);
+        }
+        result = await management.setKindPowDifficulty(params[0], params[1]);
+        break;
+
+      case "removekindpowdifficulty":
+        if (typeof params[0] !== "number") {
+          return c.json({ error: "Invalid kind parameter" }, 400);
+        }
+        result = await management.removeKindPowDifficulty(params[0]);
+        break;
+
+      case "listpowdifficulties":
+        result = {
+          min: await management.getMinPowDifficulty(),
+          kinds: await management.listKindPowDifficulties(),
+        };
+        break;
+
+      case "setratelimit":
+        if (typeof params[0] !== "string" || !isValidRateLimitRule(params[0])) {
+          return c.json({ error: "Invalid rule parameter" }, 400);
+        }
+        if (typeof params[1] !== "number" || params[1] < 0) {
+          return c.json({ error: "Invalid rate parameter" }, 400);
+        }
+        if (typeof params[2] !== "number" || params[2] < 0) {
+          return c.json({ error: "Invalid burst parameter" }, 400);
+        }
+        result = await management.setRateLimit(params[0], {
+          rate: params[1],
+          burst: params[2],
+        });
+        break;
+
+      case "removeratelimit":
         if (typeof params[0] !== "string") {
+          return c.json({ error: "Invalid rule parameter" }, 400);
+        }
+        result = await management.removeRateLimit(params[0]);
+        break;
+
+      case "listratelimits":
+        result = await management.listRateLimits();
+        break;
+
+      case "blockip":
+        if (typeof params[0] !== "string" || !isValidCidr(params[0])) {
           return c.json({ error: "Invalid IP parameter" }, 400);
         }
         result = await management.blockIP(
@@ -371,6 +563,11 @@ app.get("/", async (c) => {
       pubkey: config.relayPubkey,
       contact: config.relayContact,
       banner: config.relayBanner,
+      limitation: {
+        ...config.limits,
+        auth_required: config.authRequiredForWrites ||
+          config.authRequiredForReads,
+      },
     });
 
     return c.json(info, 200, {
@@ -385,102 +582,87 @@ app.get("/", async (c) => {
     return c.text("Use a Nostr client to connect", 400);
   }
 
+  // Resolve the client IP, reading X-Forwarded-For only from trusted proxies
+  const ip = getClientIP(
+    getConnInfo(c).remote.address ?? "",
+    c.req.header("x-forwarded-for"),
+    config.trustedProxies,
+  );
+
+  // NIP-86: Refuse blocked clients before upgrading
+  if (await management.isIPBlocked(ip)) {
+    return c.text("Forbidden", 403);
+  }
+
   const { socket, response } = Deno.upgradeWebSocket(c.req.raw);
-  const connId = crypto.randomUUID();
-  let responsePoller: number | null = null;
-  const queueKey = `nostr:responses:${connId}`;
+  const connId = createConnId(serverId);
+
+  // Use configured relay URL if provided, otherwise use request URL
+  const relayUrl = config.relayUrl || c.req.url;
 
   socket.onopen = () => {
     connectionsGauge.inc();
     localMetrics.websocketOpens++;
 
-    // Start polling for responses from relay workers
-    responsePoller = setInterval(async () => {
-      try {
-        // Non-blocking pop of responses
-        const responses = await redis.lPopCount(queueKey, 100);
-        if (responses && responses.length > 0) {
-          // Reset TTL since we're actively consuming - this is a live connection
-          await redis.expire(queueKey, 5);
-
-          for (const responseJson of responses) {
-            try {
-              const msg = JSON.parse(responseJson);
-              send(msg);
-            } catch (err) {
-              console.error("Error parsing response:", err);
-            }
-          }
-        }
+    // Workers only record state for open connections, and this is queued
+    // before any of the connection's messages
+    servers.addConnection(connId)
+      .catch((err) => console.error("Error registering connection:", err));
 
-        // Refresh subscription TTLs every 10 iterations (1 second)
-        // This keeps active subscriptions alive
-        if (Math.random() < 0.1) {
-          await pubsub.refreshConnection(connId);
-        }
-      } catch (err) {
-        console.error("Error polling responses:", err);
-      }
-    }, 100); // Poll every 100ms for balanced latency/performance
+    // NIP-42: Issue an auth challenge to the client
+    relayAuth.createChallenge(connId, relayUrl)
+      .then((challenge) => send(["AUTH", challenge]))
+      .catch((err) => console.error("Error creating auth challenge:", err));
+
+    // Deliver responses from relay workers as they are published
+    responses.register(connId, sendRaw);
+    subscriptions.addConnection(connId);
   };
 
   socket.onmessage = async (e) => {
     localMetrics.messagesReceived++;
     try {
-      // Check queue length before pushing
-      const queueLength = await redis.lLen("nostr:relay:queue");
-      if (queueLength > 1000) {
-        console.warn(
-          `Queue length exceeded (${queueLength}), closing connection ${connId}`,
-        );
-
-        send(["NOTICE", "relay is overloaded, please try again later"]);
-
-        // Parse the message to determine appropriate response
-        try {
-          const msg = JSON.parse(e.data) as unknown;
-          if (Array.isArray(msg) && msg.length > 0) {
-            const verb = msg[0];
-            if (verb === "EVENT") {
-              // Return false OK for EVENT messages
-              const eventId = msg[1]?.id;
-              if (eventId) {
-                send([
-                  "OK",
-                  eventId,
-                  false,
-                  "error: relay is overloaded, please try again later",
-                ]);
-              }
-            } else if (verb === "REQ") {
-              // Return CLOSED for REQ messages
-              const subId = msg[1];
-              if (subId) {
-                send([
-                  "CLOSED",
-                  subId,
-                  "error: relay is overloaded, please try again later",
-                ]);
-              }
-            }
-          }
-        } catch {
-          // fallthrough
-        }
-
-        socket.close();
+      // NIP-11: Reject messages over the advertised max_message_length
+      if (byteLength(e.data) > config.limits.max_message_length) {
+        const reason =
+          `invalid: message too large (max ${config.limits.max_message_length} bytes)`;
+        send(["NOTICE", reason]);
+        rejectMessage(e.data, reason);
         return;
       }
 
+      // A CLOSE ends a subscription and a REQ reusing its ID replaces it, but
+      // they are handled after the connection's earlier messages, so stop the
+      // historical query of the previous REQ right away instead of waiting.
+      // This must happen before queueing, or a worker could already be running
+      // the new REQ's query and it would be cancelled instead.
+      const cancelledSubId = getCancelledSubId(e.data);
+      if (cancelledSubId !== undefined) {
+        await queryCancellation.cancel(connId, cancelledSubId);
+      }
+
       // Queue the raw message for relay workers to process
       // Don't parse or validate here - let workers do that in parallel
-      await redis.lPush(
-        "nostr:relay:queue",
-        JSON.stringify({
-          connId,
-          msg: e.data,
-        }),
+      const queued = await inbound.push(
+        connId,
+        e.data,
+        ip,
+        config.maxConnectionBacklog,
       );
+
+      // Shed connections whose own backlog is full, workers pull messages
+      // round-robin so other connections aren't held up by it
+      if (!queued) {
+        console.warn(`Backlog of connection ${connId} is full, closing it`);
+        localMetrics.connectionsOverloaded++;
+
+        const reason = "rate-limited: too many pending messages";
+        send(["NOTICE", reason]);
+        rejectMessage(e.data, reason);
+
+        socket.close();
+        return;
+      }
     } catch (err) {
       console.error("Message queueing error:", err);
       send(["NOTICE", "error: failed to queue message"]);
@@ -491,15 +673,14 @@ app.get("/", async (c) => {
     connectionsGauge.dec();
     localMetrics.websocketCloses++;
 
-    // Stop polling for responses
-    if (responsePoller !== null) {
-      clearInterval(responsePoller);
-    }
+    // Stop delivering responses and events
+    responses.unregister(connId);
+    subscriptions.removeConnection(connId);
 
-    // Clean up response queue and subscriptions in Redis
+    // Clean up queued messages and subscriptions in Redis
     try {
-      await redis.del(queueKey);
-      await pubsub.unsubscribeAll(connId);
+      await servers.removeConnection(connId);
+      await cleanupConnection(connId);
     } catch (err) {
       console.error("Error cleaning up connection data:", err);
     }
@@ -513,10 +694,15 @@ app.get("/", async (c) => {
   };
 
   function send(msg: NostrRelayMsg) {
+    sendRaw(JSON.stringify(msg));
+  }
+
+  // Send an already serialized message
+  function sendRaw(data: string) {
     try {
       if (socket.readyState === WebSocket.OPEN) {
         localMetrics.messagesSent++;
-        socket.send(JSON.stringify(msg));
+        socket.send(data);
       }
     } catch (err) {
       if (Deno.env.get("DEBUG")) {
@@ -525,6 +711,31 @@ app.get("/", async (c) => {
     }
   }
 
+  // Answer a rejected message with OK or CLOSED when possible
+  function rejectMessage(data: string, reason: string) {
+    try {
+      const msg = JSON.parse(data) as unknown;
+      if (Array.isArray(msg) && msg.length > 0) {
+        const verb = msg[0];
+        if (verb === "EVENT") {
+          // Return false OK for EVENT messages
+          const eventId = msg[1]?.id;
+          if (eventId) {
+            send(["OK", eventId, false, reason]);
+          }
+        } else if (verb === "REQ" || verb === "COUNT") {
+          // Return CLOSED for REQ and COUNT messages
+          const subId = msg[1];
+          if (typeof subId === "string") {
+            send(["CLOSED", subId, reason]);
+          }
+        }
+      }
+    } catch {
+      // fallthrough
+    }
+  }
+
   return response;
 });
 
@@ -536,6 +747,11 @@ console.log(
 const shutdown = async () => {
   console.log("Shutting down server...");
 
+  clearInterval(heartbeatInterval);
+  await servers.stop();
+  await responses.stop();
+  await broadcasts.stop();
+  await subscriber.quit();
   await redis.quit();
   Deno.exit(0);
 };
@@ -2,10 +2,13 @@
  * Storage worker process that batches events from Redis and inserts into OpenSearch
  */
 import { Client } from "@opensearch-project/opensearch";
-import { createClient as createRedisClient } from "redis";
+import { createClient as createRedisClient, type RedisClientType } from "redis";
 import { Config } from "@/lib/config.ts";
 import { getMetricsInstance, initializeMetrics } from "@/lib/metrics.ts";
 import { OpenSearchRelay } from "@/lib/opensearch.ts";
+import { EventStream, type EventStreamEntry } from "@/lib/event-stream.ts";
+import { RecentEvents } from "@/lib/recent-events.ts";
+import { StorageAckPublisher } from "@/lib/storage-acks.ts";
 import type { NostrEvent } from "@nostrify/nostrify";
 
 const config = new Config(Deno.env);
@@ -34,7 +37,7 @@ if (config.opensearchUsername && config.opensearchPassword) {
 const opensearch = new Client(opensearchConfig);
 
 // Redis client
-const redis = createRedisClient({
+const redis: RedisClientType = createRedisClient({
   url: config.redisUrl,
 });
 await redis.connect();
@@ -48,61 +51,155 @@ const metrics = getMetricsInstance();
 // Initialize OpenSearchRelay
 const relay = new OpenSearchRelay(opensearch);
 
+// Initialize the stream of events awaiting storage
+const stream = new EventStream(redis);
+await stream.init();
+
+// Store the events an older version left queued in its list
+const drained = await stream.drainLegacyQueue();
+if (drained > 0) {
+  console.log(`📦 Moved ${drained} events from the legacy queue to the stream`);
+}
+
+// Initialize the cache of accepted events until they're searchable
+const recentEvents = new RecentEvents(redis);
+
+// Initialize the storage confirmations of durably acknowledged events
+const storageAcks = new StorageAckPublisher(redis);
+
 const WORKER_ID = crypto.randomUUID().slice(0, 8);
 
 const BATCH_SIZE = 1000; // Number of events to batch before inserting
-const POLL_INTERVAL_MS = 10; // How often to check Redis when queue is empty
+const BLOCK_MS = 1000; // How long to wait for new events when the stream is empty
+const CLAIM_INTERVAL_MS = 30000; // How often to look for abandoned events
+const CLAIM_MIN_IDLE_MS = 60000; // How long an event stays pending before it's claimed
+const CONSUMER_MAX_IDLE_MS = 3600000; // When consumers of stopped workers are removed
+
+let running = true;
 
-async function insertBatch(events: NostrEvent[]) {
-  if (events.length === 0) return;
+/**
+ * Insert a batch of stream entries, acknowledging them only once stored
+ * Events rejected by OpenSearch, or of a batch that failed as a whole, are
+ * queued again until they're dead-lettered
+ */
+async function insertBatch(entries: EventStreamEntry[]) {
+  if (entries.length === 0) return;
+
+  const parsed = entries.filter((
+    entry,
+  ): entry is EventStreamEntry & { event: NostrEvent } => !!entry.event);
+  if (parsed.length < entries.length) {
+    console.error(
+      `Failed to parse ${entries.length - parsed.length} event(s)`,
+    );
+  }
 
   try {
-    await relay.eventBatch(events);
+    const failures = await relay.eventBatch(
+      parsed.map((entry) => entry.event),
+    );
+    const reasons = new Map(
+      failures.map((failure) => [failure.event.id, failure.reason]),
+    );
+
+    const stored = parsed.length - failures.length;
+    if (stored > 0) {
+      console.log(`✅ Inserted ${stored} events into OpenSearch`);
 
-    console.log(`✅ Inserted ${events.length} events into OpenSearch`);
+      // Increment events stored counter
+      await metrics.incrementEventsStored(stored);
+    }
 
-    // Increment events stored counter
-    await metrics.incrementEventsStored(events.length);
+    // Unparseable entries are acknowledged too, since they can never succeed
+    const failedEntries = parsed.filter((entry) => reasons.has(entry.event.id));
+    await stream.ack(
+      entries
+        .filter((entry) => !entry.event || !reasons.has(entry.event.id))
+        .map((entry) => entry.id),
+    );
+
+    // Stored events stay cached until the index refresh makes them searchable
+    const storedEntries = parsed.filter((entry) =>
+      !reasons.has(entry.event.id)
+    );
+    await recentEvents.indexed(storedEntries.map((entry) => entry.event));
+    await publishOutcomes(storedEntries);
+
+    for (const entry of failedEntries) {
+      await failEntry(entry, reasons.get(entry.event.id)!);
+    }
+
+    if (failures.length > 0) {
+      await metrics.incrementEventsFailed(failures.length);
+    }
   } catch (error) {
     console.error("❌ Failed to insert batch:", error);
 
     // Increment events failed counter
-    await metrics.incrementEventsFailed(events.length);
+    await metrics.incrementEventsFailed(parsed.length);
+
+    // The whole batch counts as an attempt for each of its events, so a batch
+    // that always fails is dead-lettered rather than retried forever
+    const reason = error instanceof Error
+      ? error.message
+      : "failed to store batch";
+    for (const entry of parsed) {
+      await failEntry(entry, reason);
+    }
+    await stream.ack(
+      entries.filter((entry) => !entry.event).map((entry) => entry.id),
+    );
+
+    // Events queued again may still be stored, so waiting relay workers only
+    // learn of the failure once an event is dead-lettered, and otherwise time
+    // out
+
+    // Wait a bit before retrying
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+  }
+}
 
-    // Push failed events back to queue for retry
-    for (const event of events) {
-      await redis.rPush("nostr:events:queue", JSON.stringify(event));
+/**
+ * Queue a failed event again, or dead-letter it after too many attempts
+ */
+async function failEntry(
+  entry: EventStreamEntry & { event: NostrEvent },
+  reason: string,
+) {
+  const dead = await stream.fail(entry, reason, config.maxIndexAttempts);
+  if (dead) {
+    console.error(`☠️  Dead-lettered event ${entry.event.id}: ${reason}`);
+    await recentEvents.remove([entry.event]);
+    await publishOutcomes([entry], reason);
+  }
+}
+
+/**
+ * Tell the relay workers waiting to acknowledge events whether they were
+ * stored, failing with `reason` if given
+ */
+async function publishOutcomes(
+  entries: (EventStreamEntry & { event: NostrEvent })[],
+  reason?: string,
+) {
+  for (const entry of entries) {
+    if (entry.ack) {
+      await storageAcks.publish(entry.ack, {
+        id: entry.event.id,
+        stored: !reason,
+        ...(reason && { reason }),
+      });
     }
   }
 }
 
 // Main processing loop
 async function processEvents() {
-  while (true) {
+  while (running) {
     try {
-      // Pop up to BATCH_SIZE events at once using LPOP with count
-      // This is MUCH faster than popping one at a time
-      const results = await redis.lPopCount("nostr:events:queue", BATCH_SIZE);
-
-      if (results && results.length > 0) {
-        const events: NostrEvent[] = [];
-
-        for (const result of results) {
-          try {
-            const event = JSON.parse(result) as NostrEvent;
-            events.push(event);
-          } catch (error) {
-            console.error("Failed to parse event:", error);
-          }
-        }
-
-        if (events.length > 0) {
-          await insertBatch(events);
-        }
-      } else {
-        // Queue is empty, wait a bit before checking again
-        await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
-      }
+      // Read up to BATCH_SIZE new events at once, waiting while the stream is empty
+      const entries = await stream.read(WORKER_ID, BATCH_SIZE, BLOCK_MS);
+      await insertBatch(entries);
     } catch (error) {
       console.error("Error processing events:", error);
       // Wait a bit before retrying
@@ -111,31 +208,43 @@ async function processEvents() {
   }
 }
 
+// Claim loop recovering events left pending by failed batches or dead workers
+async function claimPendingEvents() {
+  while (running) {
+    await new Promise((resolve) => setTimeout(resolve, CLAIM_INTERVAL_MS));
+
+    try {
+      // Go through the pending entries once, continuing after the entries of
+      // each claim, so entries failing again aren't claimed over and over
+      let nextId = "0-0";
+      do {
+        const claimed = await stream.claim(
+          WORKER_ID,
+          CLAIM_MIN_IDLE_MS,
+          BATCH_SIZE,
+          nextId,
+        );
+        nextId = claimed.nextId;
+        if (claimed.entries.length > 0) {
+          console.log(`♻️  Claimed ${claimed.entries.length} pending events`);
+          await insertBatch(claimed.entries);
+        }
+      } while (running && nextId !== "0-0");
+
+      await stream.removeIdleConsumers(CONSUMER_MAX_IDLE_MS);
+    } catch (error) {
+      console.error("Error claiming pending events:", error);
+    }
+  }
+}
+
 // Graceful shutdown
 const shutdown = async () => {
   console.log(`Shutting down storage worker ${WORKER_ID}...`);
 
-  try {
-    // Process any remaining events in the queue
-    const results = await redis.lPopCount("nostr:events:queue", BATCH_SIZE);
-    if (results && results.length > 0) {
-      const events: NostrEvent[] = results
-        .map((r: string) => {
-          try {
-            return JSON.parse(r) as NostrEvent;
-          } catch {
-            return null;
-          }
-        })
-        .filter((e: NostrEvent | null): e is NostrEvent => e !== null);
-
-      if (events.length > 0) {
-        await insertBatch(events);
-      }
-    }
-  } catch (error) {
-    console.error("Error processing remaining events during shutdown:", error);
-  }
+  // Events read but not yet stored stay pending and are claimed by another
+  // worker, so nothing needs to be drained here
+  running = false;
 
   try {
     await redis.quit();
@@ -157,3 +266,4 @@ Deno.addSignalListener("SIGTERM", shutdown);
 
 // Start processing
 processEvents();
+claimPendingEvents();